@@ -3,3 +3,6 @@
 
 export * from './credentials/SogniApi.credentials';
 export * from './nodes/Sogni/Sogni.node';
+export * from './nodes/SogniTrigger/SogniTrigger.node';
+export * from './nodes/LmChatSogni/LmChatSogni.node';
+export * from './nodes/ToolSogni/ToolSogni.node';
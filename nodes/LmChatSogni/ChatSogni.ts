@@ -0,0 +1,187 @@
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+
+import { CHAT_MODEL_EXECUTION_TIMEOUT_MS } from '../Sogni/chatModels';
+
+export interface ChatSogniCallOptions extends BaseChatModelCallOptions {
+  tools?: Array<Record<string, any>>;
+}
+
+export interface ChatSogniFields extends BaseChatModelParams {
+  /** Connected SogniClientWrapper; its lifecycle is owned by the n8n sub-node. */
+  client: any;
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  think?: boolean;
+  tokenType?: 'spark' | 'sogni';
+}
+
+/**
+ * Convert LangChain messages to the OpenAI-style messages accepted by createChatCompletion.
+ * Content arrays (text + image_url parts) are passed through unchanged.
+ */
+export function toSogniMessages(messages: BaseMessage[]): Array<Record<string, any>> {
+  return messages.map((message) => {
+    const type = message._getType();
+
+    if (type === 'system') return { role: 'system', content: message.content };
+    if (type === 'human') return { role: 'user', content: message.content };
+
+    if (type === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: (message as ToolMessage).tool_call_id,
+      };
+    }
+
+    if (type === 'ai') {
+      const toolCalls = (message as AIMessage).tool_calls ?? [];
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(toolCalls.length
+          ? {
+              tool_calls: toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+              })),
+            }
+          : {}),
+      };
+    }
+
+    return { role: 'user', content: message.content };
+  });
+}
+
+function parseToolArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { input: raw };
+  }
+}
+
+/**
+ * LangChain chat model backed by Sogni LLM workers, so Sogni models can sit in the
+ * "Chat Model" slot of n8n AI Agents and chains.
+ */
+export class ChatSogni extends BaseChatModel<ChatSogniCallOptions> {
+  client: any;
+
+  model: string;
+
+  maxTokens?: number;
+
+  temperature?: number;
+
+  think: boolean;
+
+  tokenType: 'spark' | 'sogni';
+
+  private modelsReady?: Promise<unknown>;
+
+  constructor(fields: ChatSogniFields) {
+    super(fields);
+    this.client = fields.client;
+    this.model = fields.model;
+    this.maxTokens = fields.maxTokens;
+    this.temperature = fields.temperature;
+    this.think = fields.think ?? false;
+    this.tokenType = fields.tokenType ?? 'spark';
+  }
+
+  _llmType(): string {
+    return 'sogni';
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<ChatSogniCallOptions>) {
+    return this.withConfig({
+      tools: tools.map((tool) => convertToOpenAITool(tool)),
+      ...kwargs,
+    } as Partial<ChatSogniCallOptions>);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    // Chat models are announced asynchronously after connect; wait once per client. A failed
+    // wait is forgotten so the next call tries again instead of failing with the same error.
+    if (!this.modelsReady) {
+      const ready = Promise.resolve(this.client.waitForChatModels(CHAT_MODEL_EXECUTION_TIMEOUT_MS));
+      this.modelsReady = ready;
+      ready.catch(() => {
+        if (this.modelsReady === ready) this.modelsReady = undefined;
+      });
+    }
+    await this.modelsReady;
+
+    const result: any = await this.client.createChatCompletion({
+      model: this.model,
+      messages: toSogniMessages(messages),
+      tools: options.tools?.length ? options.tools : undefined,
+      tool_choice: options.tool_choice,
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      stop: options.stop,
+      think: this.think,
+      tokenType: this.tokenType,
+    });
+
+    const rawToolCalls: any[] = Array.isArray(result?.tool_calls) ? result.tool_calls : [];
+    const content = typeof result?.content === 'string' ? result.content : '';
+    const usage = result?.usage ?? {};
+
+    const message = new AIMessage({
+      content,
+      tool_calls: rawToolCalls.map((call) => ({
+        id: call.id,
+        name: call.function?.name ?? call.name,
+        args: parseToolArguments(call.function?.arguments ?? call.arguments),
+        type: 'tool_call' as const,
+      })),
+      additional_kwargs: rawToolCalls.length ? { tool_calls: rawToolCalls } : {},
+      response_metadata: {
+        model: this.model,
+        finishReason: result?.finishReason,
+        jobId: result?.jobID,
+      },
+      usage_metadata:
+        typeof usage.prompt_tokens === 'number'
+          ? {
+              input_tokens: usage.prompt_tokens,
+              output_tokens: usage.completion_tokens ?? 0,
+              total_tokens: usage.total_tokens ?? usage.prompt_tokens + (usage.completion_tokens ?? 0),
+            }
+          : undefined,
+    });
+
+    if (content) await runManager?.handleLLMNewToken(content);
+
+    return {
+      generations: [{ text: content, message }],
+      llmOutput: {
+        tokenUsage: {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  IDataObject,
+  INodeType,
+  INodeTypeDescription,
+  ISupplyDataFunctions,
+  NodeOperationError,
+  SupplyData,
+} from 'n8n-workflow';
+
+import { SogniClientWrapper } from '@sogni-ai/sogni-intelligence-client';
+import { getChatModelOptions } from '../Sogni/chatModels';
+import {
+  debugLogAppId,
+  generateUniqueAppId,
+  normalizeAppId,
+  safeDisconnect,
+} from '../Sogni/clientUtils';
+import { ChatSogni } from './ChatSogni';
+
+export class LmChatSogni implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Sogni AI Chat Model',
+    name: 'lmChatSogni',
+    icon: 'file:sogni.svg',
+    group: ['transform'],
+    version: 1,
+    description: 'Use Sogni LLM models in AI Agents and chains',
+    defaults: {
+      name: 'Sogni AI Chat Model',
+    },
+    codex: {
+      categories: ['AI'],
+      subcategories: {
+        AI: ['Language Models', 'Root Nodes'],
+        'Language Models': ['Chat Models (Recommended)'],
+      },
+    },
+    inputs: [],
+    outputs: ['ai_languageModel'],
+    outputNames: ['Model'],
+    credentials: [
+      {
+        name: 'sogniApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Model Search',
+        name: 'llmModelSearch',
+        type: 'string',
+        placeholder: 'e.g., qwen, vision, reasoning',
+        default: '',
+        description:
+          'Type to filter chat models by ID. The dropdown below refreshes when you edit this field.',
+      },
+      {
+        displayName: 'Model',
+        name: 'model',
+        type: 'options',
+        required: true,
+        typeOptions: {
+          loadOptionsMethod: 'getChatModelOptions',
+          loadOptionsDependsOn: ['llmModelSearch'],
+        },
+        default: '',
+        description: 'The Sogni chat/LLM model to use',
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Max Tokens',
+            name: 'maxTokens',
+            type: 'number',
+            default: 1024,
+            description: 'Maximum number of completion tokens to request',
+            typeOptions: { minValue: 1, maxValue: 65536 },
+          },
+          {
+            displayName: 'Temperature',
+            name: 'temperature',
+            type: 'number',
+            default: 0.7,
+            description: 'Sampling temperature. Lower is more deterministic.',
+            typeOptions: { minValue: 0, maxValue: 2, numberPrecision: 2 },
+          },
+          {
+            displayName: 'Thinking',
+            name: 'think',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to enable reasoning for models that support it',
+          },
+          {
+            displayName: 'Token Type',
+            name: 'tokenType',
+            type: 'options',
+            options: [
+              { name: 'Spark', value: 'spark', description: 'Use Spark tokens (cheaper)' },
+              { name: 'SOGNI', value: 'sogni', description: 'Use SOGNI tokens' },
+            ],
+            default: 'spark',
+            description: 'Which token type to use for chat requests',
+          },
+        ],
+      },
+    ],
+  };
+
+  methods = {
+    loadOptions: {
+      getChatModelOptions,
+    },
+  };
+
+  async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+    const credentials = await this.getCredentials('sogniApi');
+    const model = this.getNodeParameter('model', itemIndex) as string;
+    const options = (this.getNodeParameter('options', itemIndex, {}) as IDataObject) || {};
+
+    if (!model) {
+      throw new NodeOperationError(this.getNode(), 'Please select a Sogni chat model', { itemIndex });
+    }
+
+    // Same appId strategy as the main node's execute(): honor an explicit appId,
+    // otherwise one unique appId per supplied model instance.
+    const userProvidedAppId = normalizeAppId(credentials.appId as string | undefined);
+    const appId = userProvidedAppId ?? generateUniqueAppId('n8n-sogni-chat');
+    debugLogAppId(`supplyData node="${this.getNode().name}" appId=${appId}`);
+
+    const client = new SogniClientWrapper({
+      username: credentials.username as string,
+      password: credentials.password as string,
+      appId,
+      autoConnect: true,
+      debug: false,
+    });
+
+    const chatModel = new ChatSogni({
+      client,
+      model,
+      maxTokens: options.maxTokens as number | undefined,
+      temperature: options.temperature as number | undefined,
+      think: (options.think as boolean | undefined) ?? false,
+      tokenType: (options.tokenType as 'spark' | 'sogni' | undefined) ?? 'spark',
+    });
+
+    return {
+      response: chatModel,
+      closeFunction: async () => {
+        await safeDisconnect(client, { label: 'supplyData', appId, timeoutMs: 5000 });
+      },
+    };
+  }
+}
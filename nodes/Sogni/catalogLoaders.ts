@@ -0,0 +1,108 @@
+import { ICredentialDataDecryptedObject } from 'n8n-workflow';
+
+import { SogniClientWrapper } from '@sogni-ai/sogni-intelligence-client';
+import { debugLogAppId, generateUniqueAppId, safeDisconnect } from './clientUtils';
+import {
+  chatModelCatalog,
+  credentialCacheKey,
+  mediaModelCatalog,
+  withSharedClient,
+} from './modelCatalog';
+
+/**
+ * Run `fn` with the editor's shared loadOptions client for this credential. The pickers that
+ * load together when a workflow is opened reuse one connection (and one login).
+ */
+function withLoadOptionsClient<R>(
+  credentials: ICredentialDataDecryptedObject,
+  label: string,
+  fn: (client: any) => Promise<R>,
+): Promise<R> {
+  const key = credentialCacheKey(credentials);
+  let appId = '';
+  return withSharedClient(
+    key,
+    () => {
+      // IMPORTANT: Use a dedicated unique appId for loadOptions so the editor UI cannot
+      // interfere with any running workflow execution.
+      appId = generateUniqueAppId('n8n-sogni-loadopts');
+      debugLogAppId(`loadOptions:${label} appId=${appId}`);
+      return new SogniClientWrapper({
+        username: credentials.username as string,
+        password: credentials.password as string,
+        appId,
+        autoConnect: true,
+        debug: false,
+      });
+    },
+    (client) => safeDisconnect(client, { label: `loadOptions:${label}`, appId, timeoutMs: 2000 }),
+    fn,
+  );
+}
+
+/**
+ * Image/video/edit model list for the editor pickers, from the process-level catalog cache.
+ */
+export async function loadMediaModels(
+  credentials: ICredentialDataDecryptedObject,
+  label: string,
+): Promise<any[]> {
+  const { value } = await mediaModelCatalog.get(credentialCacheKey(credentials), () =>
+    withLoadOptionsClient(credentials, label, async (client) =>
+      (await client.getAvailableModels({ sortByWorkers: true, minWorkers: 0 })) as any[],
+    ),
+  );
+  return value;
+}
+
+/**
+ * Chat model map for the editor pickers, from the process-level catalog cache.
+ */
+export async function loadChatModels(
+  credentials: ICredentialDataDecryptedObject,
+  label: string,
+  timeoutMs: number,
+): Promise<Record<string, any>> {
+  const { value } = await chatModelCatalog.get(credentialCacheKey(credentials), () =>
+    withLoadOptionsClient(credentials, label, async (client) => {
+      try {
+        return await client.waitForChatModels(timeoutMs);
+      } catch {
+        return await client.getAvailableChatModels();
+      }
+    }),
+  );
+  return value;
+}
+
+/**
+ * Media model list during execution: served from the cache, fetched with the execution's own
+ * (already connected) client on a miss. With `live`, the list is always fetched (and the cache
+ * refreshed with it), for operations that report current worker counts.
+ */
+export async function getCachedMediaModels(
+  credentials: ICredentialDataDecryptedObject,
+  client: any,
+  options: { live?: boolean } = {},
+): Promise<any[]> {
+  const { value } = await mediaModelCatalog.get(
+    credentialCacheKey(credentials),
+    async () => (await client.getAvailableModels({ sortByWorkers: true, minWorkers: 0 })) as any[],
+    { forceRefresh: options.live },
+  );
+  return value;
+}
+
+/**
+ * Chat model map during execution; see getCachedMediaModels.
+ */
+export async function getCachedChatModels(
+  credentials: ICredentialDataDecryptedObject,
+  client: any,
+  timeoutMs: number,
+): Promise<Record<string, any>> {
+  const { value } = await chatModelCatalog.get(credentialCacheKey(credentials), () =>
+    client.waitForChatModels(timeoutMs),
+  );
+  return value;
+}
@@ -0,0 +1,61 @@
+import { ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+
+import { loadChatModels } from './catalogLoaders';
+
+export const CHAT_MODEL_LOAD_OPTIONS_TIMEOUT_MS = 30000;
+export const CHAT_MODEL_EXECUTION_TIMEOUT_MS = 45000;
+
+/**
+ * Chat model picker shared by the Sogni AI node (LLM resource) and the Sogni chat model sub-node.
+ * Both expose the search text as `llmModelSearch`.
+ */
+export async function getChatModelOptions(
+  this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+  const credentials = await this.getCredentials('sogniApi');
+  const search = ((this.getCurrentNodeParameter('llmModelSearch') as string) || '')
+    .trim()
+    .toLowerCase();
+
+  // Served from the process-level catalog cache; only a miss opens a connection
+  const models = await loadChatModels(
+    credentials,
+    'getChatModelOptions',
+    CHAT_MODEL_LOAD_OPTIONS_TIMEOUT_MS,
+  );
+
+  const options: INodePropertyOptions[] = Object.entries(models)
+    .filter(([modelId, info]) => {
+      if (!search) return true;
+      const provider = String((info as any)?.provider || '').toLowerCase();
+      const label = String((info as any)?.label || '').toLowerCase();
+      return (
+        modelId.toLowerCase().includes(search) ||
+        provider.includes(search) ||
+        label.includes(search)
+      );
+    })
+    .map(([modelId, info]) => {
+      const workers = (info as any)?.workers ?? 0;
+      const badge = workers ? ` • ${workers} workers` : '';
+      return {
+        name: `${modelId}${badge}${workers > 0 ? ' (available)' : ''}`,
+        value: modelId,
+        description:
+          (info as any)?.description ||
+          (info as any)?.label ||
+          (info as any)?.provider ||
+          undefined,
+      };
+    });
+
+  if (options.length === 0) {
+    options.push({
+      name: 'No LLM models available - check back later',
+      value: '',
+      description: 'Chat models are not currently available for this account/session',
+    });
+  }
+
+  return options;
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Enable optional AppId debug logging by setting:
+ *
+ *   SOGNI_N8N_DEBUG_APPID=true
+ *
+ * Examples:
+ *   docker-compose.yml:
+ *     environment:
+ *       - SOGNI_N8N_DEBUG_APPID=true
+ *
+ *   shell:
+ *     export SOGNI_N8N_DEBUG_APPID=true
+ */
+function isAppIdDebugEnabled(): boolean {
+  const raw = (process.env.SOGNI_N8N_DEBUG_APPID || '').trim().toLowerCase();
+  return raw === '1' || raw === 'true' || raw === 'yes' || raw === 'on';
+}
+
+export function debugLogAppId(message: string): void {
+  if (!isAppIdDebugEnabled()) return;
+  // eslint-disable-next-line no-console
+  console.log(`[Sogni] ${message}`);
+}
+
+/**
+ * Promise helper: ensures we don't hang forever during disconnect/cleanup.
+ */
+export async function promiseWithTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+/**
+ * Best-effort disconnect that guarantees we don't leak WebSocket connections.
+ *
+ * Why:
+ * - In n8n, nodes can run many times in the same process (worker/main).
+ * - If a websocket isn't closed in every run (including error paths),
+ *   connections accumulate and can eventually degrade/kill the worker.
+ */
+export async function safeDisconnect(
+  client: any,
+  context: { label: string; appId?: string; timeoutMs?: number },
+): Promise<void> {
+  if (!client) return;
+
+  const label = context.label;
+  const appId = context.appId;
+  const timeoutMs = typeof context.timeoutMs === 'number' && context.timeoutMs > 0 ? context.timeoutMs : 5000;
+  const tag = `${label}${appId ? ` appId=${appId}` : ''}`;
+
+  // 1) Try wrapper disconnect (graceful) but do not allow it to hang forever.
+  try {
+    if (typeof client.disconnect === 'function') {
+      debugLogAppId(`disconnect:start (${tag})`);
+      await promiseWithTimeout(Promise.resolve(client.disconnect()), timeoutMs, `disconnect (${tag})`);
+      debugLogAppId(`disconnect:done (${tag})`);
+    }
+  } catch (err) {
+    debugLogAppId(
+      `disconnect:error (${tag}) ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  // 2) Hard-close underlying socket if the wrapper didn't (or if it left it half-open).
+  // We don't depend on any one field name — we probe common ones.
+  try {
+    const ws =
+      client.socket ??
+      client.ws ??
+      client.websocket ??
+      client._socket ??
+      client._ws ??
+      client._websocket ??
+      client.client?.socket ??
+      client.client?.ws ??
+      client.client?.websocket;
+
+    if (!ws) return;
+
+    // Some implementations expose readyState (0 connecting, 1 open, 2 closing, 3 closed)
+    const readyState: number | undefined = typeof ws.readyState === 'number' ? ws.readyState : undefined;
+    const isClosed = readyState === 3;
+
+    if (!isClosed) {
+      try {
+        if (typeof ws.close === 'function') {
+          // Try graceful close first
+          ws.close();
+        }
+      } catch {
+        // ignore
+      }
+
+      try {
+        // If ws is from the `ws` package, terminate is the most reliable "hard stop"
+        if (typeof ws.terminate === 'function') {
+          ws.terminate();
+        }
+      } catch {
+        // ignore
+      }
+    }
+
+    // Prevent listener accumulation if anything holds references
+    try {
+      if (typeof ws.removeAllListeners === 'function') {
+        ws.removeAllListeners();
+      }
+    } catch {
+      // ignore
+    }
+
+    debugLogAppId(`disconnect:hard-close attempted (${tag})`);
+  } catch (err) {
+    debugLogAppId(
+      `disconnect:hard-close error (${tag}) ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Normalize user-provided appId (credentials field).
+ * Treat empty/whitespace as "unset".
+ */
+export function normalizeAppId(appId?: string): string | undefined {
+  if (typeof appId !== 'string') return undefined;
+  const trimmed = appId.trim();
+  return trimmed.length ? trimmed : undefined;
+}
+
+/**
+ * Generate a unique appId for a single client instance.
+ *
+ * IMPORTANT:
+ * Sogni allows only ONE active WebSocket connection per appId. Re-using the same appId across
+ * concurrent n8n executions or editor loadOptions calls can silently close the "other" socket,
+ * resulting in missing jobState/jobProgress/jobResult events.
+ *
+ * Strategy used here:
+ * - execute(): generate ONE appId per node execution (unless the user explicitly provided one)
+ * - loadOptions(): ALWAYS use a dedicated random appId so the editor UI cannot interfere with executions
+ * - trigger(): ALWAYS use a dedicated random appId; the listener stays connected while the workflow is active
+ */
+export function generateUniqueAppId(prefix: string): string {
+  return `${prefix}-${randomUUID()}`;
+}
+
+/**
+ * Re-open the wrapper's WebSocket after a drop so the next attempt starts from a live connection.
+ * The old socket is closed first (best-effort) so it cannot deliver events for the new attempt.
+ */
+export async function reconnectClient(
+  client: any,
+  context: { label: string; appId?: string; timeoutMs?: number },
+): Promise<void> {
+  if (!client || typeof client.connect !== 'function') return;
+  await safeDisconnect(client, context);
+  const timeoutMs =
+    typeof context.timeoutMs === 'number' && context.timeoutMs > 0 ? context.timeoutMs : 15000;
+  debugLogAppId(`reconnect:start (${context.label}${context.appId ? ` appId=${context.appId}` : ''})`);
+  await promiseWithTimeout(Promise.resolve(client.connect()), timeoutMs, `reconnect (${context.label})`);
+}
+
+/**
+ * Reconnects per client. `generation` counts finished reconnects so a caller can tell whether
+ * the connection it failed on has already been replaced.
+ */
+const reconnectStates = new WeakMap<object, { generation: number; inFlight?: Promise<void> }>();
+
+function getReconnectState(client: any): { generation: number; inFlight?: Promise<void> } {
+  let state = reconnectStates.get(client);
+  if (!state) {
+    state = { generation: 0 };
+    reconnectStates.set(client, state);
+  }
+  return state;
+}
+
+/**
+ * Identify the current connection of a shared client. Read it before an attempt and hand it to
+ * `reconnectClientOnce` if the attempt fails on a dropped socket.
+ */
+export function getConnectionGeneration(client: any): number {
+  return client && typeof client === 'object' ? getReconnectState(client).generation : 0;
+}
+
+/**
+ * Reconnect a client shared by concurrent items at most once per drop. Callers that failed on the
+ * same connection join the reconnect already in flight; a caller whose connection was replaced in
+ * the meantime, or whose client still reports itself connected, does not reconnect at all.
+ */
+export function reconnectClientOnce(
+  client: any,
+  context: { label: string; appId?: string; timeoutMs?: number },
+  failedGeneration: number,
+): Promise<void> {
+  if (!client || typeof client !== 'object') return Promise.resolve();
+  const state = getReconnectState(client);
+  if (state.inFlight) return state.inFlight;
+  if (state.generation !== failedGeneration) return Promise.resolve();
+  if (typeof client.isConnected === 'function' && client.isConnected() === true) {
+    return Promise.resolve();
+  }
+
+  state.inFlight = reconnectClient(client, context).finally(() => {
+    state.generation++;
+    state.inFlight = undefined;
+  });
+  return state.inFlight;
+}
@@ -0,0 +1,81 @@
+export const MAX_CONCURRENT_JOBS_LIMIT = 20;
+
+/**
+ * Clamp the "Max Concurrent Jobs" option to a sane worker count (defaults to sequential).
+ */
+export function normalizeConcurrency(value: unknown): number {
+  const num = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) return 1;
+  return Math.min(MAX_CONCURRENT_JOBS_LIMIT, Math.max(1, Math.floor(num)));
+}
+
+/**
+ * Map over `items` with at most `limit` calls in flight. Results keep the input order.
+ *
+ * On the first rejection no further items are started; calls already in flight are allowed to
+ * settle (so nothing is still using the shared client when the caller cleans up), then the first
+ * error is rethrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  await Promise.all(workers);
+
+  if (failed) throw firstError;
+  return results;
+}
+
+/**
+ * Simple FIFO lock. Used to let only one project submission at a time be "claiming" the project
+ * IDs the shared client announces, so concurrent items can tell their projects apart.
+ */
+export class SubmissionLock {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Wait for the lock. The returned release function is idempotent; the lock is also released
+   * automatically after `maxHoldMs` so a submission that never announces a project ID cannot
+   * stall the others.
+   */
+  async acquire(maxHoldMs: number): Promise<() => void> {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const previous = this.tail;
+    this.tail = previous.then(() => held);
+    await previous;
+
+    let released = false;
+    const timer = setTimeout(() => done(), maxHoldMs);
+    function done() {
+      if (released) return;
+      released = true;
+      clearTimeout(timer);
+      release();
+    }
+    return done;
+  }
+}
@@ -0,0 +1,100 @@
+import { resolveSdkClient } from './projectUtils';
+
+export interface ImageCostEstimateParams {
+  modelId: string;
+  network: 'fast' | 'relaxed';
+  tokenType: 'spark' | 'sogni';
+  steps: number;
+  numberOfMedia: number;
+  guidance?: number;
+  sizePreset?: string;
+  width?: number;
+  height?: number;
+  controlNet?: boolean;
+  /** Whether a starting image is sent; the SDK estimate infers it from `startingImageStrength` */
+  startingImage?: boolean;
+  startingImageStrength?: number;
+  contextImages?: number;
+}
+
+export interface VideoCostEstimateParams {
+  modelId: string;
+  width: number;
+  height: number;
+  fps: number;
+  steps: number;
+  duration?: number;
+  frames?: number;
+  numberOfMedia: number;
+  tokenType: 'spark' | 'sogni';
+}
+
+const TOKEN_KEYS = ['token', 'tokens', 'totalTokens', 'tokenCost', 'costTokens', 'cost', 'total'] as const;
+const USD_KEYS = ['usd', 'costUsd', 'totalUsd', 'usdCost'] as const;
+
+function toFiniteNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+function pickNumber(source: any, keys: readonly string[]): number | undefined {
+  if (source === null || source === undefined) return undefined;
+  const direct = toFiniteNumber(source);
+  if (direct !== undefined) return direct;
+  if (typeof source !== 'object') return undefined;
+
+  for (const key of keys) {
+    const value = toFiniteNumber(source[key]);
+    if (value !== undefined) return value;
+  }
+  // Some responses nest the numbers (e.g. { estimate: { token: "1.2" } })
+  for (const nestedKey of ['estimate', 'quote', 'data']) {
+    if (source[nestedKey] && typeof source[nestedKey] === 'object') {
+      const nested = pickNumber(source[nestedKey], keys);
+      if (nested !== undefined) return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pull the token amount out of a cost estimate, whatever shape the SDK returned it in.
+ */
+export function extractEstimatedTokens(estimate: unknown): number | undefined {
+  return pickNumber(estimate, TOKEN_KEYS);
+}
+
+export function extractEstimatedUsd(estimate: unknown): number | undefined {
+  return pickNumber(estimate, USD_KEYS);
+}
+
+/**
+ * Estimate the cost of an image (or image edit) project. Prefers a wrapper-level helper and
+ * falls back to the underlying sogni-client `projects.estimateCost`.
+ */
+export async function estimateImageCost(client: any, params: ImageCostEstimateParams): Promise<any> {
+  if (typeof client?.estimateImageCost === 'function') {
+    return client.estimateImageCost(params);
+  }
+
+  const projects = resolveSdkClient(client)?.projects;
+  if (typeof projects?.estimateCost !== 'function') {
+    throw new Error('The installed Sogni client does not support image cost estimates');
+  }
+
+  return projects.estimateCost({
+    network: params.network,
+    tokenType: params.tokenType,
+    model: params.modelId,
+    imageCount: params.numberOfMedia,
+    stepCount: params.steps,
+    previewCount: 0,
+    cnEnabled: params.controlNet ?? false,
+    startingImageStrength: params.startingImageStrength,
+    contextImages: params.contextImages,
+    guidance: params.guidance,
+    sizePreset: params.sizePreset || undefined,
+    width: params.width,
+    height: params.height,
+  });
+}
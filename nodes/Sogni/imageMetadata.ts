@@ -0,0 +1,397 @@
+import { IDataObject } from 'n8n-workflow';
+import { inflateSync } from 'zlib';
+
+/** PNG text keyword / XMP property holding the generation metadata as JSON */
+export const METADATA_KEYWORD = 'sogni:metadata';
+export const METADATA_SOFTWARE = 'Sogni AI (n8n-nodes-sogni)';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+/** Largest payload of a JPEG APP segment (the 2 length bytes count towards 65535) */
+const MAX_JPEG_SEGMENT = 65533;
+
+/** Project config fields worth recording; binaries and transport options are left out */
+const RECORDED_PARAMETERS = [
+  'negativePrompt',
+  'stylePrompt',
+  'steps',
+  'guidance',
+  'seed',
+  'numberOfMedia',
+  'sizePreset',
+  'width',
+  'height',
+  'network',
+  'tokenType',
+  'outputFormat',
+  'frames',
+  'duration',
+  'fps',
+  'shift',
+  'teacacheThreshold',
+  'sampler',
+  'scheduler',
+  'startingImageStrength',
+];
+
+/**
+ * Metadata recorded for a generated file, from the project config sent to Sogni. Empty values
+ * are dropped; ControlNet is reduced to its name and strength.
+ */
+export function buildGenerationMetadata(
+  operation: string,
+  projectConfig: Record<string, any>,
+): IDataObject {
+  const metadata: IDataObject = {
+    operation,
+    modelId: projectConfig.modelId,
+    prompt: projectConfig.positivePrompt,
+  };
+  for (const key of RECORDED_PARAMETERS) {
+    const value = projectConfig[key];
+    if (value !== undefined && value !== null && value !== '') metadata[key] = value;
+  }
+  if (projectConfig.controlNet?.name) {
+    metadata.controlNet = {
+      name: projectConfig.controlNet.name,
+      strength: projectConfig.controlNet.strength,
+    };
+  }
+  if (Array.isArray(projectConfig.contextImages)) {
+    metadata.contextImages = projectConfig.contextImages.length;
+  }
+  metadata.createdAt = new Date().toISOString();
+  return metadata;
+}
+
+/**
+ * Source URL as recorded in file metadata: without the query string and fragment, which hold
+ * the signature of a signed download URL.
+ */
+export function metadataSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/, 1)[0];
+  }
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Uncompressed iTXt chunk: keyword, flags, empty language and translated keyword, UTF-8 text */
+function iTXtChunk(keyword: string, text: string): Buffer {
+  return pngChunk(
+    'iTXt',
+    Buffer.concat([
+      Buffer.from(keyword, 'latin1'),
+      Buffer.from([0, 0, 0, 0, 0]),
+      Buffer.from(text, 'utf8'),
+    ]),
+  );
+}
+
+function tEXtChunk(keyword: string, text: string): Buffer {
+  return pngChunk('tEXt', Buffer.from(`${keyword}\0${text}`, 'latin1'));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length > 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+export function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+/**
+ * Write the metadata into a PNG right after IHDR: the JSON as an iTXt chunk, the prompt as
+ * `Description` and the generator as `Software`.
+ */
+export function embedPngMetadata(buffer: Buffer, metadata: IDataObject): Buffer {
+  if (!isPng(buffer)) throw new Error('Not a PNG file');
+  const ihdrLength = buffer.readUInt32BE(8);
+  const insertAt = 8 + 12 + ihdrLength;
+  const chunks = [
+    iTXtChunk(METADATA_KEYWORD, JSON.stringify(metadata)),
+    tEXtChunk('Software', METADATA_SOFTWARE),
+  ];
+  if (typeof metadata.prompt === 'string' && metadata.prompt) {
+    chunks.push(iTXtChunk('Description', metadata.prompt));
+  }
+  return Buffer.concat([buffer.subarray(0, insertAt), ...chunks, buffer.subarray(insertAt)]);
+}
+
+function buildXmpPacket(metadata: IDataObject): string {
+  const prompt = typeof metadata.prompt === 'string' ? metadata.prompt : '';
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:sogni="https://sogni.ai/ns/1.0/"',
+    ` xmp:CreatorTool="${escapeXml(METADATA_SOFTWARE)}"`,
+    ` sogni:metadata="${escapeXml(JSON.stringify(metadata))}">`,
+    prompt
+      ? '<dc:description><rdf:Alt>' +
+        `<rdf:li xml:lang="x-default">${escapeXml(prompt)}</rdf:li>` +
+        '</rdf:Alt></dc:description>'
+      : '',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+}
+
+/**
+ * Write the metadata into a JPEG as an XMP APP1 segment, after the JFIF/EXIF headers.
+ */
+export function embedJpegMetadata(buffer: Buffer, metadata: IDataObject): Buffer {
+  if (!isJpeg(buffer)) throw new Error('Not a JPEG file');
+  const payload = Buffer.concat([
+    Buffer.from(XMP_NAMESPACE, 'latin1'),
+    Buffer.from(buildXmpPacket(metadata), 'utf8'),
+  ]);
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    throw new Error(`Metadata is too large for a JPEG XMP segment (${payload.length} bytes)`);
+  }
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+
+  // Keep APP0 (JFIF) and APP1 (EXIF) first, as readers expect
+  let insertAt = 2;
+  while (
+    insertAt + 4 <= buffer.length &&
+    buffer[insertAt] === 0xff &&
+    (buffer[insertAt + 1] === 0xe0 || buffer[insertAt + 1] === 0xe1)
+  ) {
+    insertAt += 2 + buffer.readUInt16BE(insertAt + 2);
+  }
+  return Buffer.concat([buffer.subarray(0, insertAt), header, payload, buffer.subarray(insertAt)]);
+}
+
+/**
+ * Embed metadata into a PNG or JPEG; other formats are returned unchanged with `embedded: false`.
+ */
+export function embedImageMetadata(
+  buffer: Buffer,
+  metadata: IDataObject,
+): { data: Buffer; embedded: boolean } {
+  if (isPng(buffer)) return { data: embedPngMetadata(buffer, metadata), embedded: true };
+  if (isJpeg(buffer)) return { data: embedJpegMetadata(buffer, metadata), embedded: true };
+  return { data: buffer, embedded: false };
+}
+
+export interface ReadImageMetadataResult {
+  format: 'png' | 'jpeg' | 'unknown';
+  /** Whether generation metadata written by this node was found */
+  found: boolean;
+  metadata?: IDataObject;
+  /** Where the metadata came from: `png:iTXt`, `png:tEXt`, `png:zTXt` or `jpeg:xmp` */
+  source?: string;
+  /** Every PNG text chunk, or the XMP creator tool and description of a JPEG */
+  text: Record<string, string>;
+}
+
+function parseMetadataJson(value: string | undefined): IDataObject | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Text chunks of a PNG keyed by keyword, with the chunk type each came from */
+function readPngText(buffer: Buffer): Map<string, { text: string; type: string }> {
+  const entries = new Map<string, { text: string; type: string }>();
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > buffer.length || type === 'IEND') break;
+    offset = dataEnd + 4;
+    if (type !== 'tEXt' && type !== 'iTXt' && type !== 'zTXt') continue;
+
+    const data = buffer.subarray(dataStart, dataEnd);
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd <= 0) continue;
+    const keyword = data.toString('latin1', 0, keywordEnd);
+    try {
+      if (type === 'tEXt') {
+        entries.set(keyword, { text: data.toString('latin1', keywordEnd + 1), type });
+      } else if (type === 'zTXt') {
+        const text = inflateSync(data.subarray(keywordEnd + 2)).toString('latin1');
+        entries.set(keyword, { text, type });
+      } else {
+        // iTXt: compression flag and method, then NUL-terminated language and translated keyword
+        const compressed = data[keywordEnd + 1] === 1;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+        if (translatedEnd < 0) continue;
+        const raw = data.subarray(translatedEnd + 1);
+        const text = (compressed ? inflateSync(raw) : raw).toString('utf8');
+        entries.set(keyword, { text, type });
+      }
+    } catch {
+      // A corrupt chunk only loses that entry
+    }
+  }
+  return entries;
+}
+
+/** XMP packet of a JPEG, from the APP1 segments before the image data */
+function readJpegXmp(buffer: Buffer): string | undefined {
+  const namespace = Buffer.from(XMP_NAMESPACE, 'latin1');
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && segment.subarray(0, namespace.length).equals(namespace)) {
+      return segment.toString('utf8', namespace.length);
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+function xmpValue(xmp: string, name: string): string | undefined {
+  const attribute = new RegExp(`${name}="([^"]*)"`).exec(xmp);
+  if (attribute) return unescapeXml(attribute[1]);
+  const element = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xmp);
+  return element ? unescapeXml(element[1]) : undefined;
+}
+
+/**
+ * Read generation metadata back from a PNG (text chunks) or JPEG (XMP). Files without it, or in
+ * another format, come back with `found: false` rather than an error.
+ */
+export function readImageMetadata(buffer: Buffer): ReadImageMetadataResult {
+  if (isPng(buffer)) {
+    const entries = readPngText(buffer);
+    const text: Record<string, string> = {};
+    for (const [keyword, entry] of entries) text[keyword] = entry.text;
+    const entry = entries.get(METADATA_KEYWORD);
+    const metadata = parseMetadataJson(entry?.text);
+    return metadata
+      ? { format: 'png', found: true, metadata, source: `png:${entry!.type}`, text }
+      : { format: 'png', found: false, text };
+  }
+
+  if (isJpeg(buffer)) {
+    const xmp = readJpegXmp(buffer);
+    const text: Record<string, string> = {};
+    if (!xmp) return { format: 'jpeg', found: false, text };
+    const creatorTool = xmpValue(xmp, 'xmp:CreatorTool');
+    if (creatorTool) text.Software = creatorTool;
+    const description = /<dc:description>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/.exec(xmp);
+    if (description) text.Description = unescapeXml(description[1]);
+    const metadata = parseMetadataJson(xmpValue(xmp, METADATA_KEYWORD));
+    return metadata
+      ? { format: 'jpeg', found: true, metadata, source: 'jpeg:xmp', text }
+      : { format: 'jpeg', found: false, text };
+  }
+
+  return { format: 'unknown', found: false, text: {} };
+}
+
+/**
+ * Image > Generate parameters that reproduce the recorded image, shaped like the node's own
+ * parameters (`additionalFields.generationSettings`, `output`, `advanced`). Without `keepSeed` the
+ * seed is left out so a run gives a variation. ControlNet and starting images are not recorded
+ * and have to be supplied again.
+ */
+export function rebuildGenerateParameters(
+  metadata: IDataObject,
+  options: { keepSeed?: boolean } = {},
+): IDataObject {
+  const pick = (keys: string[]) => {
+    const values: IDataObject = {};
+    for (const key of keys) {
+      if (metadata[key] !== undefined && metadata[key] !== null) values[key] = metadata[key];
+    }
+    return values;
+  };
+
+  const generationSettings = pick([
+    'negativePrompt',
+    'stylePrompt',
+    'steps',
+    'guidance',
+    'startingImageStrength',
+  ]);
+  generationSettings.numberOfMedia = 1;
+  if (options.keepSeed !== false && metadata.seed !== undefined) {
+    generationSettings.seed = metadata.seed;
+  }
+  const output = pick(['outputFormat', 'sizePreset', 'width', 'height']);
+
+  const additionalFields: IDataObject = { generationSettings, output };
+  const advanced = pick(['tokenType']);
+  if (Object.keys(advanced).length) additionalFields.advanced = advanced;
+  const controlNet = metadata.controlNet as IDataObject | undefined;
+  if (controlNet?.name) {
+    additionalFields.controlNet = {
+      enableControlNet: true,
+      controlNetType: controlNet.name,
+      ...(controlNet.strength !== undefined ? { controlNetStrength: controlNet.strength } : {}),
+    };
+  }
+
+  return {
+    modelId: metadata.modelId,
+    positivePrompt: metadata.prompt ?? '',
+    ...(metadata.network ? { network: metadata.network } : {}),
+    additionalFields,
+  };
+}
@@ -0,0 +1,58 @@
+import { isLtxVideoModelId, isWanVideoModelId } from './videoModelUtils';
+
+const STARTING_IMAGE_FLAG_KEYS = [
+  'supportsStartingImage',
+  'supports_starting_image',
+  'img2img',
+  'supportsImg2Img',
+  'supports_img2img',
+];
+const STARTING_IMAGE_CAPABILITY_NAMES = [
+  'img2img',
+  'image2image',
+  'image-to-image',
+  'image_to_image',
+  'startingimage',
+  'starting_image',
+];
+
+/** Qwen Image Edit models take context images instead of a starting image */
+export function isImageEditModelId(modelId?: string): boolean {
+  const id = (modelId || '').toLowerCase();
+  return id.includes('qwen') && id.includes('image_edit');
+}
+
+/**
+ * Whether an image model accepts a starting image (img2img), from its catalog entry.
+ *
+ * Capability flags win when the network reports them. Otherwise edit and video models are known
+ * not to, and other image models are assumed to. Returns `undefined` when neither the entry nor
+ * the ID says anything, so callers can let the API decide.
+ */
+export function imageModelSupportsStartingImage(
+  modelId: string,
+  model?: unknown,
+): boolean | undefined {
+  const record = model && typeof model === 'object' ? (model as Record<string, any>) : undefined;
+
+  if (record) {
+    for (const key of STARTING_IMAGE_FLAG_KEYS) {
+      if (typeof record[key] === 'boolean') return record[key];
+    }
+    const capabilities = record.capabilities ?? record.features;
+    if (Array.isArray(capabilities)) {
+      return capabilities.some((cap) =>
+        STARTING_IMAGE_CAPABILITY_NAMES.includes(String(cap).toLowerCase()),
+      );
+    }
+    if (capabilities && typeof capabilities === 'object') {
+      for (const key of [...STARTING_IMAGE_FLAG_KEYS, 'startingImage']) {
+        if (typeof capabilities[key] === 'boolean') return capabilities[key];
+      }
+    }
+  }
+
+  if (isImageEditModelId(modelId)) return false;
+  if (isWanVideoModelId(modelId) || isLtxVideoModelId(modelId)) return false;
+  return record ? true : undefined;
+}
@@ -0,0 +1,371 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+import { isJpeg, isPng, pngChunk } from './imageMetadata';
+
+/** Largest width or height the node sends to Sogni or decodes locally */
+export const MAX_IMAGE_DIMENSION = 2048;
+
+/** 8-bit RGBA pixels, row by row */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+  format: 'png' | 'jpeg' | 'gif' | 'webp';
+}
+
+export interface MaskRectangle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** JPEG start-of-frame markers (baseline, progressive, lossless...), not DHT/JPG/DAC */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+/**
+ * Width and height from the file header of a PNG, JPEG, GIF or WebP, without decoding pixels.
+ */
+export function readImageDimensions(buffer: Buffer): ImageDimensions | undefined {
+  if (isPng(buffer) && buffer.length >= 24) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20), format: 'png' };
+  }
+
+  if (isJpeg(buffer)) {
+    let offset = 2;
+    while (offset + 9 <= buffer.length && buffer[offset] === 0xff) {
+      const marker = buffer[offset + 1];
+      if (marker === 0xd9 || marker === 0xda) break;
+      if (JPEG_SOF_MARKERS.has(marker)) {
+        return {
+          width: buffer.readUInt16BE(offset + 7),
+          height: buffer.readUInt16BE(offset + 5),
+          format: 'jpeg',
+        };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return undefined;
+  }
+
+  const signature = buffer.toString('latin1', 0, 6);
+  if ((signature === 'GIF87a' || signature === 'GIF89a') && buffer.length >= 10) {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8), format: 'gif' };
+  }
+
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    const chunk = buffer.toString('latin1', 12, 16);
+    if (chunk === 'VP8X' && buffer.length >= 30) {
+      return {
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+        format: 'webp',
+      };
+    }
+    if (chunk === 'VP8 ' && buffer.length >= 30) {
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+        format: 'webp',
+      };
+    }
+    if (chunk === 'VP8L' && buffer.length >= 25) {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, format: 'webp' };
+    }
+  }
+
+  return undefined;
+}
+
+/** Samples per pixel for each PNG color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Decode a non-interlaced PNG of any color type and bit depth to 8-bit RGBA.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (!isPng(buffer)) throw new Error('Not a PNG file');
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error('Unsupported PNG header');
+  }
+  // Checked before anything is inflated or allocated from the (untrusted) header
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+    throw new Error(
+      `PNG is ${width}x${height}; the maximum is ${MAX_IMAGE_DIMENSION} pixels per side`,
+    );
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat), { maxOutputLength: height * (stride + 1) });
+  } catch {
+    throw new Error('Corrupt or oversized PNG image data');
+  }
+  if (raw.length < height * (stride + 1)) throw new Error('Truncated PNG image data');
+
+  // Undo the per-row filters in place
+  const rows = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? rows[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? rows[row - stride + x - bytesPerPixel] : 0;
+      let value = source[x];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      rows[row + x] = value & 0xff;
+    }
+  }
+
+  const sample = (y: number, index: number): number => {
+    const row = y * stride;
+    if (bitDepth === 8) return rows[row + index];
+    if (bitDepth === 16) return rows[row + index * 2];
+    const bit = index * bitDepth;
+    const value = (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+    // Palette indices stay indices; grayscale is scaled up to 8 bits
+    return colorType === 3 ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+  };
+  const transparentGray = transparency && colorType === 0 ? transparency.readUInt16BE(0) : -1;
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const base = x * channels;
+      let r: number;
+      let g: number;
+      let b: number;
+      let a = 255;
+      if (colorType === 3) {
+        const index = sample(y, base);
+        r = palette?.[index * 3] ?? 0;
+        g = palette?.[index * 3 + 1] ?? 0;
+        b = palette?.[index * 3 + 2] ?? 0;
+        a = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = sample(y, base);
+        if (colorType === 4) a = sample(y, base + 1);
+        else if (bitDepth === 8 && r === transparentGray) a = 0;
+      } else {
+        r = sample(y, base);
+        g = sample(y, base + 1);
+        b = sample(y, base + 2);
+        if (colorType === 6) a = sample(y, base + 3);
+      }
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit RGBA PNG (no row filtering; zlib does the work).
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc(image.height * (stride + 1));
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Inpainting mask: white (repaint) inside the rectangle, black (keep) elsewhere.
+ */
+export function createRectangleMask(width: number, height: number, rect: MaskRectangle): RgbaImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside =
+        x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+      const pixel = (y * width + x) * 4;
+      data.fill(inside ? 255 : 0, pixel, pixel + 3);
+      data[pixel + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Outpainting mask for an image grown by `padding`: white over the new border, black over the
+ * original area.
+ */
+export function createPaddingMask(width: number, height: number, padding: ImagePadding): RgbaImage {
+  const mask = createRectangleMask(
+    width + padding.left + padding.right,
+    height + padding.top + padding.bottom,
+    { x: padding.left, y: padding.top, width, height },
+  );
+  // Invert: the rectangle is what we keep
+  for (let i = 0; i < mask.data.length; i += 4) {
+    const value = 255 - mask.data[i];
+    mask.data.fill(value, i, i + 3);
+  }
+  return mask;
+}
+
+/** Gray used for image areas the model has to paint from scratch */
+const NEUTRAL_GRAY = 128;
+
+/**
+ * Grow an image by `padding`, filling the new border with neutral gray. The border carries no
+ * content of its own; the padding mask tells the model to paint it.
+ */
+export function padImage(image: RgbaImage, padding: ImagePadding): RgbaImage {
+  const width = image.width + padding.left + padding.right;
+  const height = image.height + padding.top + padding.bottom;
+  const data = Buffer.alloc(width * height * 4, NEUTRAL_GRAY);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  const stride = image.width * 4;
+  for (let y = 0; y < image.height; y++) {
+    const target = ((y + padding.top) * width + padding.left) * 4;
+    image.data.copy(data, target, y * stride, (y + 1) * stride);
+  }
+  return { width, height, data };
+}
+
+/** How much a mask pixel asks to repaint, 0-1. Transparent mask pixels count as black. */
+function maskWeight(mask: RgbaImage, offset: number): number {
+  const luminance =
+    (mask.data[offset] * 299 + mask.data[offset + 1] * 587 + mask.data[offset + 2] * 114) / 1000;
+  return (luminance / 255) * (mask.data[offset + 3] / 255);
+}
+
+/**
+ * Blank the area the mask marks for repainting (weight of at least one half), so the model gets
+ * no stale content there: `neutral` fills it with gray (for the inpaint ControlNet image), `noise`
+ * with seeded random pixels (for the starting image).
+ */
+export function blankMaskedArea(
+  image: RgbaImage,
+  mask: RgbaImage,
+  fill: 'neutral' | 'noise',
+  seed = 0,
+): RgbaImage {
+  if (mask.width !== image.width || mask.height !== image.height) {
+    const expected = `${image.width}x${image.height}`;
+    throw new Error(`Mask is ${mask.width}x${mask.height}, expected ${expected}`);
+  }
+  // xorshift32, so the same seed gives the same starting image
+  let state = seed >>> 0 || 0x9e3779b9;
+  const random = () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) & 0xff;
+  };
+
+  const data = Buffer.from(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (maskWeight(mask, i) < 0.5) continue;
+    for (let c = 0; c < 3; c++) data[i + c] = fill === 'noise' ? random() : NEUTRAL_GRAY;
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Blend the generated image over the source through the mask: white takes the generated pixel,
+ * black keeps the source, gray (soft edges) mixes them. Transparent mask pixels count as black.
+ */
+export function compositeMasked(
+  source: RgbaImage,
+  generated: RgbaImage,
+  mask: RgbaImage,
+): RgbaImage {
+  for (const image of [generated, mask]) {
+    if (image.width !== source.width || image.height !== source.height) {
+      throw new Error(
+        `Image is ${image.width}x${image.height}, expected ${source.width}x${source.height}`,
+      );
+    }
+  }
+  const data = Buffer.alloc(source.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const weight = maskWeight(mask, i);
+    for (let c = 0; c < 4; c++) {
+      data[i + c] = Math.round(source.data[i + c] * (1 - weight) + generated.data[i + c] * weight);
+    }
+  }
+  return { width: source.width, height: source.height, data };
+}
@@ -0,0 +1,211 @@
+/**
+ * Minimal JSON Schema support for the LLM "Response Format" option.
+ *
+ * Covers the keywords people actually put in response schemas (type, properties, required,
+ * additionalProperties, items, enum, const, string/number/array bounds, anyOf/oneOf/allOf).
+ * Unknown keywords are ignored rather than rejected.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+export interface StructuredReply {
+  ok: boolean;
+  data?: unknown;
+  errors: string[];
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a schema. Returns a list of human-readable errors (empty when valid),
+ * each prefixed with the JSON path of the offending value.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o: unknown) => JSON.stringify(o)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push(`${path}: must match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // An invalid pattern in the schema is the author's problem, not the model's
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((entry, index) => {
+        errors.push(...validateJsonSchema(entry, schema.items, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, entry] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(entry, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(entry, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) errors.push(...validateJsonSchema(value, sub, path));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.map((sub: JsonSchema) => validateJsonSchema(value, sub, path));
+    if (!branches.some((branch: string[]) => branch.length === 0)) {
+      errors.push(`${path}: does not match any allowed shape (${branches[0]?.[0] ?? 'anyOf'})`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (sub: JsonSchema) => validateJsonSchema(value, sub, path).length === 0,
+    );
+    if (matches.length !== 1) {
+      errors.push(`${path}: must match exactly one allowed shape (matched ${matches.length})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Pull a JSON value out of a model reply. Models often wrap JSON in ```json fences or add a
+ * sentence before it, so fall back to the outermost {...} / [...] span.
+ */
+export function extractJsonFromText(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1]?.trim(), trimmed];
+
+  const firstBrace = trimmed.search(/[{[]/);
+  const lastBrace = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    candidates.push(trimmed.slice(firstBrace, lastBrace + 1));
+  }
+
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw new Error(
+    `Reply is not valid JSON: ${lastError instanceof Error ? lastError.message : 'no JSON found'}`,
+  );
+}
+
+export function parseStructuredReply(content: string, schema: JsonSchema): StructuredReply {
+  let data: unknown;
+  try {
+    data = extractJsonFromText(content);
+  } catch (error) {
+    return { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  const errors = validateJsonSchema(data, schema);
+  return errors.length ? { ok: false, data, errors } : { ok: true, data, errors };
+}
+
+export function buildResponseFormatInstruction(schema: JsonSchema): string {
+  return [
+    'Respond ONLY with a single JSON value that conforms to this JSON Schema.',
+    'Do not wrap it in markdown and do not add any explanation.',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+}
+
+export function buildValidationFeedback(errors: string[]): string {
+  return [
+    'Your previous reply did not match the required JSON Schema:',
+    ...errors.slice(0, 20).map((error) => `- ${error}`),
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+}
@@ -0,0 +1,203 @@
+export const DEFAULT_AGENT_MAX_ITERATIONS = 5;
+
+export interface AgentModelTurn {
+  content?: string;
+  tool_calls?: any[];
+  [key: string]: any;
+}
+
+export interface AgentToolCallRecord {
+  id?: string;
+  name: string;
+  arguments: unknown;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AgentLoopResult<T extends AgentModelTurn> {
+  /** Full transcript: input messages, assistant turns and tool results */
+  messages: any[];
+  /** The last model response */
+  result: T;
+  iterations: number;
+  stopReason: 'final' | 'maxIterations';
+  toolCalls: AgentToolCallRecord[];
+}
+
+export interface AgentLoopOptions<T extends AgentModelTurn> {
+  messages: any[];
+  maxIterations?: number;
+  callModel: (messages: any[]) => Promise<T>;
+  callTool: (name: string, args: unknown, call: any) => Promise<unknown>;
+  signal?: AbortSignal;
+}
+
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  target: 'workflow' | 'http';
+  workflowId?: string;
+  httpMethod?: 'GET' | 'POST';
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function parseJsonField<T>(raw: unknown, label: string, fallback: T): T {
+  if (raw === undefined || raw === null || raw === '') return fallback;
+  if (typeof raw === 'object') return raw as T;
+  try {
+    return JSON.parse(String(raw)) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${label} must be valid JSON: ${message}`);
+  }
+}
+
+/**
+ * Turn the "Agent Tools" fixedCollection value into validated tool definitions.
+ */
+export function parseAgentToolDefinitions(raw: unknown): AgentToolDefinition[] {
+  const entries: any[] = Array.isArray((raw as any)?.tool) ? (raw as any).tool : [];
+  const seen = new Set<string>();
+
+  return entries.map((entry) => {
+    const name = String(entry?.name ?? '').trim();
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      throw new Error(`Agent tool name "${name}" must be 1-64 letters, digits, "_" or "-"`);
+    }
+    if (seen.has(name)) throw new Error(`Agent tool "${name}" is defined more than once`);
+    seen.add(name);
+
+    const parameters = parseJsonField<Record<string, unknown>>(
+      entry.parametersJson,
+      `Parameters Schema of tool "${name}"`,
+      { type: 'object', properties: {} },
+    );
+    const target = entry.target === 'http' ? 'http' : 'workflow';
+    const definition: AgentToolDefinition = {
+      name,
+      description: String(entry.description ?? ''),
+      parameters,
+      target,
+    };
+
+    if (target === 'workflow') {
+      definition.workflowId = String(entry.workflowId ?? '').trim();
+      if (!definition.workflowId) throw new Error(`Agent tool "${name}" needs a Workflow ID`);
+    } else {
+      definition.url = String(entry.url ?? '').trim();
+      if (!definition.url) throw new Error(`Agent tool "${name}" needs a URL`);
+      definition.httpMethod = entry.httpMethod === 'GET' ? 'GET' : 'POST';
+      definition.headers = parseJsonField<Record<string, string>>(
+        entry.headersJson,
+        `Headers of tool "${name}"`,
+        {},
+      );
+    }
+    return definition;
+  });
+}
+
+export function toChatTool(definition: AgentToolDefinition) {
+  return {
+    type: 'function',
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.parameters,
+    },
+  };
+}
+
+function parseToolArguments(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw ?? {};
+  if (!raw.trim()) return {};
+  return JSON.parse(raw);
+}
+
+/**
+ * Tool results are sent back as message content, which must be a string.
+ */
+export function serializeToolResult(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Run a model/tool conversation until the model answers without tool calls or the iteration cap
+ * is reached. Each iteration is one model call followed by all of the tool calls it requested.
+ *
+ * Tool failures (bad arguments, unknown tools, executor errors) are reported back to the model as
+ * `{"error": "..."}` tool messages so it can recover, rather than failing the whole item.
+ */
+export async function runAgentLoop<T extends AgentModelTurn>(
+  options: AgentLoopOptions<T>,
+): Promise<AgentLoopResult<T>> {
+  const maxIterations = Math.max(1, options.maxIterations ?? DEFAULT_AGENT_MAX_ITERATIONS);
+  const messages = [...options.messages];
+  const toolCalls: AgentToolCallRecord[] = [];
+
+  let result: T | undefined;
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    if (options.signal?.aborted) throw new Error('Execution was canceled');
+
+    iterations++;
+    result = await options.callModel(messages);
+    const calls = Array.isArray(result.tool_calls) ? result.tool_calls : [];
+
+    messages.push({
+      role: 'assistant',
+      content: result.content ?? '',
+      ...(calls.length ? { tool_calls: calls } : {}),
+    });
+
+    if (!calls.length) {
+      return { messages, result, iterations, stopReason: 'final', toolCalls };
+    }
+
+    for (const call of calls) {
+      const name = String(call?.function?.name ?? call?.name ?? '');
+      const startedAt = Date.now();
+      let args: unknown = call?.function?.arguments ?? call?.arguments;
+      let content: string;
+
+      try {
+        args = parseToolArguments(args);
+        content = serializeToolResult(await options.callTool(name, args, call));
+        toolCalls.push({
+          id: call?.id,
+          name,
+          arguments: args,
+          ok: true,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        content = JSON.stringify({ error: message });
+        toolCalls.push({
+          id: call?.id,
+          name,
+          arguments: args,
+          ok: false,
+          durationMs: Date.now() - startedAt,
+          error: message,
+        });
+      }
+
+      messages.push({ role: 'tool', tool_call_id: call?.id, name, content });
+    }
+  }
+
+  return { messages, result: result as T, iterations, stopReason: 'maxIterations', toolCalls };
+}
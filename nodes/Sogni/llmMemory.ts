@@ -0,0 +1,287 @@
+export type ChatMemoryBackend = 'workflowStaticData' | 'inProcess';
+
+export interface StoredConversation {
+  /** Summary of turns that were trimmed from `messages` */
+  summary?: string;
+  messages: any[];
+  updatedAt: string;
+}
+
+export interface ChatMemoryStore {
+  /**
+   * Wait until no other item holds the session, then hold it until the returned function is
+   * called. Items sharing a session load, reply and save one at a time instead of overwriting
+   * each other's turn.
+   */
+  lock(sessionId: string): Promise<() => void>;
+  load(sessionId: string): Promise<StoredConversation | undefined>;
+  save(sessionId: string, conversation: StoredConversation): Promise<void>;
+}
+
+export interface HistoryLimits {
+  maxTurns?: number;
+  maxTokens?: number;
+}
+
+export interface TrimmedHistory {
+  kept: any[];
+  dropped: any[];
+  keptTurns: number;
+  droppedTurns: number;
+}
+
+const IN_PROCESS_TTL_MS = 24 * 60 * 60 * 1000;
+const IN_PROCESS_MAX_SESSIONS = 1000;
+const STATIC_DATA_KEY = 'sogniChatMemory';
+// Static data is saved with the workflow, so keep it small
+const STATIC_DATA_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const STATIC_DATA_MAX_SESSIONS = 100;
+// Rough cost of one image part; real usage depends on resolution and model
+const IMAGE_PART_TOKENS = 256;
+
+const inProcessSessions = new Map<string, { conversation: StoredConversation; touchedAt: number }>();
+
+type SessionLocks = Map<string, Promise<void>>;
+
+const inProcessLocks: SessionLocks = new Map();
+const staticDataLocks = new WeakMap<object, SessionLocks>();
+
+async function acquireSessionLock(locks: SessionLocks, key: string): Promise<() => void> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => held);
+  locks.set(key, tail);
+  await previous;
+  return () => {
+    release();
+    if (locks.get(key) === tail) locks.delete(key);
+  };
+}
+
+/**
+ * Sessions kept in this n8n process only. Lost on restart and not shared between queue-mode
+ * workers, but works for manual executions, unlike workflow static data.
+ */
+export class InProcessMemoryStore implements ChatMemoryStore {
+  constructor(private readonly namespace: string) {}
+
+  lock(sessionId: string): Promise<() => void> {
+    return acquireSessionLock(inProcessLocks, `${this.namespace}:${sessionId}`);
+  }
+
+  async load(sessionId: string): Promise<StoredConversation | undefined> {
+    const key = `${this.namespace}:${sessionId}`;
+    const entry = inProcessSessions.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.touchedAt > IN_PROCESS_TTL_MS) {
+      inProcessSessions.delete(key);
+      return undefined;
+    }
+    return entry.conversation;
+  }
+
+  async save(sessionId: string, conversation: StoredConversation): Promise<void> {
+    const key = `${this.namespace}:${sessionId}`;
+    const now = Date.now();
+    inProcessSessions.delete(key);
+    inProcessSessions.set(key, { conversation, touchedAt: now });
+
+    for (const [oldKey, entry] of inProcessSessions) {
+      const expired = now - entry.touchedAt > IN_PROCESS_TTL_MS;
+      if (expired || inProcessSessions.size > IN_PROCESS_MAX_SESSIONS) {
+        inProcessSessions.delete(oldKey);
+      } else {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Sessions stored in the node's workflow static data. n8n only persists static data for
+ * executions of active workflows, so manual test runs start from an empty history. Sessions
+ * idle for 30 days are dropped, and only the 100 most recently updated are kept.
+ */
+export class StaticDataMemoryStore implements ChatMemoryStore {
+  constructor(private readonly staticData: Record<string, any>) {}
+
+  private get sessions(): Record<string, StoredConversation> {
+    if (!this.staticData[STATIC_DATA_KEY] || typeof this.staticData[STATIC_DATA_KEY] !== 'object') {
+      this.staticData[STATIC_DATA_KEY] = {};
+    }
+    return this.staticData[STATIC_DATA_KEY];
+  }
+
+  lock(sessionId: string): Promise<() => void> {
+    let locks = staticDataLocks.get(this.staticData);
+    if (!locks) {
+      locks = new Map();
+      staticDataLocks.set(this.staticData, locks);
+    }
+    return acquireSessionLock(locks, sessionId);
+  }
+
+  async load(sessionId: string): Promise<StoredConversation | undefined> {
+    const conversation = this.sessions[sessionId];
+    if (conversation && isExpired(conversation, Date.now())) {
+      delete this.sessions[sessionId];
+      return undefined;
+    }
+    return conversation;
+  }
+
+  async save(sessionId: string, conversation: StoredConversation): Promise<void> {
+    const sessions = this.sessions;
+    sessions[sessionId] = conversation;
+
+    const now = Date.now();
+    for (const [key, stored] of Object.entries(sessions)) {
+      if (isExpired(stored, now)) delete sessions[key];
+    }
+    const keys = Object.keys(sessions);
+    if (keys.length > STATIC_DATA_MAX_SESSIONS) {
+      keys
+        .sort((a, b) => updatedAtMs(sessions[a]) - updatedAtMs(sessions[b]))
+        .slice(0, keys.length - STATIC_DATA_MAX_SESSIONS)
+        .forEach((key) => delete sessions[key]);
+    }
+  }
+}
+
+function updatedAtMs(conversation: StoredConversation | undefined): number {
+  const time = Date.parse(conversation?.updatedAt ?? '');
+  return Number.isFinite(time) ? time : 0;
+}
+
+function isExpired(conversation: StoredConversation, now: number): boolean {
+  const time = updatedAtMs(conversation);
+  return time > 0 && now - time > STATIC_DATA_TTL_MS;
+}
+
+export function estimateMessageTokens(message: any): number {
+  const content = message?.content;
+  let tokens = 4;
+  if (typeof content === 'string') {
+    tokens += Math.ceil(content.length / 4);
+  } else if (Array.isArray(content)) {
+    for (const part of content) {
+      tokens +=
+        part?.type === 'image_url'
+          ? IMAGE_PART_TOKENS
+          : Math.ceil(String(part?.text ?? '').length / 4);
+    }
+  }
+  if (Array.isArray(message?.tool_calls)) {
+    tokens += Math.ceil(JSON.stringify(message.tool_calls).length / 4);
+  }
+  return tokens;
+}
+
+export function estimateTokens(messages: any[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Group messages into turns. A turn starts at a user message and includes the assistant and
+ * tool messages that answer it, so trimming never separates a tool result from its call.
+ */
+export function splitTurns(messages: any[]): any[][] {
+  const turns: any[][] = [];
+  for (const message of messages) {
+    if (message?.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Drop the oldest turns until the history fits both limits. The newest turn is always kept.
+ */
+export function trimHistory(messages: any[], limits: HistoryLimits): TrimmedHistory {
+  const turns = splitTurns(messages);
+  let start = 0;
+
+  if (limits.maxTurns && limits.maxTurns > 0 && turns.length > limits.maxTurns) {
+    start = turns.length - limits.maxTurns;
+  }
+  if (limits.maxTokens && limits.maxTokens > 0) {
+    let tokens = estimateTokens(turns.slice(start).flat());
+    while (tokens > limits.maxTokens && start < turns.length - 1) {
+      tokens -= estimateTokens(turns[start]);
+      start++;
+    }
+  }
+
+  return {
+    kept: turns.slice(start).flat(),
+    dropped: turns.slice(0, start).flat(),
+    keptTurns: turns.length - start,
+    droppedTurns: start,
+  };
+}
+
+/**
+ * Remove inline image data before storing messages: keep the text, note that an image was there.
+ */
+export function stripImageParts(messages: any[]): any[] {
+  return messages.map((message) => {
+    if (!Array.isArray(message?.content)) return message;
+    const images = message.content.filter((part: any) => part?.type === 'image_url').length;
+    if (!images) return message;
+    const text = message.content
+      .filter((part: any) => part?.type === 'text')
+      .map((part: any) => part.text)
+      .join('\n');
+    return { ...message, content: `${text}${text ? '\n' : ''}[${images} image(s) attached]` };
+  });
+}
+
+/**
+ * Build the request messages: the caller's system messages first, then the stored summary and
+ * history, then the new messages of this turn.
+ */
+export function withConversationHistory(
+  messages: any[],
+  stored: StoredConversation | undefined,
+): any[] {
+  if (!stored || (!stored.messages?.length && !stored.summary)) return messages;
+
+  const system = messages.filter((message) => message?.role === 'system');
+  const rest = messages.filter((message) => message?.role !== 'system');
+  const summary = stored.summary
+    ? [{ role: 'system', content: `Summary of the earlier conversation:\n${stored.summary}` }]
+    : [];
+
+  return [...system, ...summary, ...(stored.messages ?? []), ...rest];
+}
+
+export function buildSummaryMessages(previousSummary: string | undefined, dropped: any[]): any[] {
+  const transcript = dropped
+    .filter((message) => message?.role === 'user' || message?.role === 'assistant')
+    .map((message) => {
+      const content =
+        typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+      return `${message.role}: ${content}`;
+    })
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You maintain a running summary of a conversation. Merge the previous summary with the new ' +
+        'messages. Keep names, facts, decisions and open questions. Reply with the summary only, ' +
+        'in at most 200 words.',
+    },
+    {
+      role: 'user',
+      content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`,
+    },
+  ];
+}
@@ -0,0 +1,247 @@
+import { resolveSdkClient } from './projectUtils';
+
+export const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 30000;
+
+export interface ChatStreamMeta {
+  streamed: true;
+  timeToFirstTokenMs?: number;
+  durationMs: number;
+  completionTokens: number;
+  tokensPerSecond?: number;
+  chunkCount: number;
+  interruptReason?: string;
+}
+
+export interface ChatStreamResult {
+  content: string;
+  finishReason: string;
+  toolCalls?: any[];
+  usage?: any;
+  jobId?: string;
+  meta: ChatStreamMeta;
+}
+
+export interface ConsumeChatStreamOptions {
+  /** Maximum time to wait for the next chunk (including the first one) */
+  idleTimeoutMs?: number;
+  signal?: AbortSignal;
+  /** Called with every text delta as it arrives */
+  onDelta?: (delta: string) => void;
+  now?: () => number;
+}
+
+interface ChatStreamDelta {
+  content?: string;
+  finishReason?: string;
+  usage?: any;
+  jobId?: string;
+  toolCalls?: any[];
+}
+
+class StreamIdleTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No data received from the chat stream for ${ms}ms`);
+    this.name = 'StreamIdleTimeoutError';
+  }
+}
+
+/**
+ * Open a streaming chat completion through the SDK's `chat.completions.create`, which returns a
+ * ChatStream. Clients without it are refused rather than falling back to a call that could be
+ * billed and still not stream.
+ */
+export async function openChatStream(
+  client: any,
+  request: Record<string, unknown>,
+): Promise<AsyncIterable<any>> {
+  const completions = resolveSdkClient(client)?.chat?.completions;
+  if (typeof completions?.create !== 'function') {
+    throw new Error('The installed Sogni client does not support streaming chat completions');
+  }
+
+  const stream = await completions.create({ ...request, stream: true });
+  if (!isAsyncIterable(stream)) {
+    throw new Error('The Sogni client did not return a chat stream');
+  }
+  return stream;
+}
+
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return !!value && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Normalize one stream chunk. Handles the SDK's flat chunks ({ content, finishReason }) as well
+ * as OpenAI-style chunks ({ choices: [{ delta: { content }, finish_reason }] }).
+ */
+export function normalizeStreamChunk(chunk: any): ChatStreamDelta {
+  if (typeof chunk === 'string') return { content: chunk };
+  if (!chunk || typeof chunk !== 'object') return {};
+
+  const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+  const delta = choice?.delta ?? chunk.delta;
+
+  const content =
+    typeof chunk.content === 'string'
+      ? chunk.content
+      : typeof delta?.content === 'string'
+      ? delta.content
+      : typeof delta === 'string'
+      ? delta
+      : undefined;
+
+  const toolCalls = chunk.tool_calls ?? chunk.toolCalls ?? delta?.tool_calls;
+
+  return {
+    content,
+    finishReason: chunk.finishReason ?? chunk.finish_reason ?? choice?.finish_reason ?? undefined,
+    usage: chunk.usage,
+    jobId: chunk.jobID ?? chunk.jobId ?? chunk.id,
+    toolCalls: Array.isArray(toolCalls) ? toolCalls : undefined,
+  };
+}
+
+/**
+ * Merge OpenAI-style tool call deltas: entries with the same index are one call whose
+ * `function.arguments` arrive in pieces.
+ */
+function mergeToolCalls(target: any[], deltas: any[]): void {
+  for (const delta of deltas) {
+    const index = typeof delta?.index === 'number' ? delta.index : target.length;
+    const existing = target[index];
+    if (!existing) {
+      target[index] = {
+        ...delta,
+        function: delta?.function ? { ...delta.function } : undefined,
+      };
+      continue;
+    }
+    if (delta.id) existing.id = delta.id;
+    if (delta.type) existing.type = delta.type;
+    if (delta.function) {
+      existing.function = existing.function ?? {};
+      if (delta.function.name) existing.function.name = delta.function.name;
+      if (typeof delta.function.arguments === 'string') {
+        existing.function.arguments = `${existing.function.arguments ?? ''}${delta.function.arguments}`;
+      }
+    }
+  }
+}
+
+function nextWithIdleTimeout<T>(
+  iterator: AsyncIterator<T>,
+  idleTimeoutMs: number,
+  signal?: AbortSignal,
+): Promise<IteratorResult<T>> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    const onAbort = () => finish(() => reject(new Error('Execution was canceled')));
+    const timer = setTimeout(
+      () => finish(() => reject(new StreamIdleTimeoutError(idleTimeoutMs))),
+      idleTimeoutMs,
+    );
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    iterator.next().then(
+      (result) => finish(() => resolve(result)),
+      (error) => finish(() => reject(error)),
+    );
+  });
+}
+
+/**
+ * Read a chat stream to the end, enforcing an idle timeout between chunks.
+ *
+ * A stream that breaks after producing output (idle timeout, socket drop, abort) resolves with
+ * the partial text and `finishReason: "interrupted"`. Errors raised before the first chunk are
+ * rethrown so a request that never started is still reported as a failure.
+ */
+export async function consumeChatStream(
+  stream: AsyncIterable<any>,
+  options: ConsumeChatStreamOptions = {},
+): Promise<ChatStreamResult> {
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_STREAM_IDLE_TIMEOUT_MS;
+  const now = options.now ?? Date.now;
+  const iterator = stream[Symbol.asyncIterator]();
+
+  const startedAt = now();
+  let firstTokenAt: number | undefined;
+  let lastTokenAt: number | undefined;
+  let content = '';
+  let deltaCount = 0;
+  let chunkCount = 0;
+  let finishReason: string | undefined;
+  let usage: any;
+  let jobId: string | undefined;
+  const toolCalls: any[] = [];
+  let interruptReason: string | undefined;
+
+  try {
+    for (;;) {
+      const { value, done } = await nextWithIdleTimeout(iterator, idleTimeoutMs, options.signal);
+      if (done) break;
+      chunkCount++;
+
+      const delta = normalizeStreamChunk(value);
+      if (delta.content) {
+        if (firstTokenAt === undefined) firstTokenAt = now();
+        lastTokenAt = now();
+        content += delta.content;
+        deltaCount++;
+        options.onDelta?.(delta.content);
+      }
+      if (delta.toolCalls) {
+        if (firstTokenAt === undefined) firstTokenAt = now();
+        lastTokenAt = now();
+        mergeToolCalls(toolCalls, delta.toolCalls);
+      }
+      if (delta.finishReason) finishReason = delta.finishReason;
+      if (delta.usage) usage = delta.usage;
+      if (delta.jobId && !jobId) jobId = delta.jobId;
+    }
+  } catch (error) {
+    if (chunkCount === 0 && !(error instanceof StreamIdleTimeoutError)) {
+      throw error;
+    }
+    interruptReason = error instanceof Error ? error.message : String(error);
+    finishReason = 'interrupted';
+    // Let the producer release its socket listeners
+    void Promise.resolve(iterator.return?.()).catch(() => undefined);
+  }
+
+  const endedAt = now();
+  const completionTokens =
+    typeof usage?.completion_tokens === 'number'
+      ? usage.completion_tokens
+      : typeof usage?.completionTokens === 'number'
+      ? usage.completionTokens
+      : deltaCount;
+  const generationMs = firstTokenAt !== undefined ? (lastTokenAt ?? endedAt) - firstTokenAt : 0;
+
+  return {
+    content,
+    finishReason: finishReason ?? 'stop',
+    toolCalls: toolCalls.length ? toolCalls.filter(Boolean) : undefined,
+    usage,
+    jobId,
+    meta: {
+      streamed: true,
+      timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+      durationMs: endedAt - startedAt,
+      completionTokens,
+      tokensPerSecond:
+        generationMs > 0 ? Math.round((completionTokens / (generationMs / 1000)) * 100) / 100 : undefined,
+      chunkCount,
+      ...(interruptReason ? { interruptReason } : {}),
+    },
+  };
+}
@@ -0,0 +1,106 @@
+export const VISION_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const VISION_FLAG_KEYS = ['vision', 'supportsVision', 'supports_vision', 'isVision', 'multimodal'];
+const VISION_CAPABILITY_NAMES = ['vision', 'image', 'images', 'image_input', 'imageinput', 'multimodal'];
+
+/** Chat models documented to accept images, used when the network reports no capability info */
+export const KNOWN_VISION_CHAT_MODELS = ['qwen3.5-35b-a3b-gguf-q4km'];
+
+export interface ChatImagePart {
+  type: 'image_url';
+  image_url: { url: string; detail?: 'auto' | 'low' | 'high' };
+}
+
+/**
+ * Read vision support from a `waitForChatModels()` entry.
+ *
+ * Returns `undefined` when the entry carries no capability information at all, so callers can
+ * tell "not a vision model" apart from "the network did not say".
+ */
+export function chatModelSupportsVision(info: unknown): boolean | undefined {
+  if (!info || typeof info !== 'object') return undefined;
+  const record = info as Record<string, any>;
+
+  for (const key of VISION_FLAG_KEYS) {
+    if (typeof record[key] === 'boolean') return record[key];
+  }
+
+  const capabilities = record.capabilities ?? record.features;
+  if (Array.isArray(capabilities)) {
+    return capabilities.some((cap) => VISION_CAPABILITY_NAMES.includes(String(cap).toLowerCase()));
+  }
+  if (capabilities && typeof capabilities === 'object') {
+    for (const key of [...VISION_FLAG_KEYS, 'image', 'imageInput']) {
+      if (typeof capabilities[key] === 'boolean') return capabilities[key];
+    }
+  }
+
+  const modalities =
+    record.inputModalities ??
+    record.input_modalities ??
+    record.modalities ??
+    record.architecture?.input_modalities;
+  if (Array.isArray(modalities)) {
+    return modalities.some((modality) => String(modality).toLowerCase() === 'image');
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether images may be sent to a chat model: its capability info decides, and without any the
+ * model must be one of KNOWN_VISION_CHAT_MODELS.
+ */
+export function isVisionChatModel(modelId: string, info: unknown): boolean {
+  return (
+    chatModelSupportsVision(info) ?? KNOWN_VISION_CHAT_MODELS.includes(modelId.trim().toLowerCase())
+  );
+}
+
+export function toImageDataUrl(buffer: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Attach image parts to the last user message, converting string content to the
+ * OpenAI-style content parts array. Images go first so the text reads as a caption/question.
+ */
+export function attachImagesToMessages(messages: any[], images: ChatImagePart[]): any[] {
+  if (!images.length) return messages;
+
+  const index = messages.map((message) => message?.role).lastIndexOf('user');
+  if (index === -1) {
+    return [...messages, { role: 'user', content: images }];
+  }
+
+  const target = messages[index];
+  const existing = Array.isArray(target.content)
+    ? target.content
+    : typeof target.content === 'string' && target.content
+    ? [{ type: 'text', text: target.content }]
+    : [];
+
+  const updated = [...messages];
+  updated[index] = { ...target, content: [...images, ...existing] };
+  return updated;
+}
+
+/**
+ * Replace inline base64 image data with a short placeholder so output items don't carry
+ * megabytes of data URLs.
+ */
+export function redactImageDataUrls(messages: any[]): any[] {
+  return messages.map((message) => {
+    if (!Array.isArray(message?.content)) return message;
+    return {
+      ...message,
+      content: message.content.map((part: any) => {
+        const url = part?.image_url?.url;
+        if (typeof url !== 'string' || !url.startsWith('data:')) return part;
+        const [header, data = ''] = url.split(',', 2);
+        const bytes = Math.floor((data.length * 3) / 4);
+        return { ...part, image_url: { ...part.image_url, url: `${header},<${bytes} bytes omitted>` } };
+      }),
+    };
+  });
+}
@@ -0,0 +1,143 @@
+export type MediaKind = 'image' | 'video' | 'audio';
+
+/** Formats recognized per kind, for error messages */
+export const SUPPORTED_INPUT_FORMATS: Record<MediaKind, string> = {
+  image: 'JPEG, PNG, GIF, WebP, AVIF',
+  video: 'MP4, MOV, WebM',
+  audio: 'WAV, MP3, OGG, M4A',
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'video/x-matroska': 'mkv',
+  'video/ogg': 'ogv',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/webm': 'weba',
+};
+
+/** ISO base media (`ftyp`) brands and the type they stand for */
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4B ': 'audio/mp4',
+};
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.length >= end ? buffer.toString('latin1', start, end) : '';
+}
+
+/**
+ * MIME sniff from the first bytes of a file (fallback when the server or the input item doesn't
+ * say, or says `application/octet-stream`). Covers the images, videos and audio Sogni produces
+ * and accepts: JPEG, PNG, GIF, WebP, AVIF, MP4, MOV, WebM/MKV, WAV, MP3 and OGG.
+ */
+export function sniffMimeType(buffer: Buffer): string | undefined {
+  if (!buffer || buffer.length < 4) return undefined;
+
+  // JPEG (at least 3 bytes needed, already ensured by <4 guard)
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+
+  // PNG (must have at least 8 bytes for the full signature)
+  if (
+    buffer.length >= 8 &&
+    buffer[0] === 0x89 &&
+    buffer[1] === 0x50 &&
+    buffer[2] === 0x4e &&
+    buffer[3] === 0x47 &&
+    buffer[4] === 0x0d &&
+    buffer[5] === 0x0a &&
+    buffer[6] === 0x1a &&
+    buffer[7] === 0x0a
+  ) {
+    return 'image/png';
+  }
+
+  // GIF (needs first 6 bytes)
+  if (buffer.length >= 6) {
+    const sig = buffer.slice(0, 6).toString('ascii');
+    if (sig === 'GIF87a' || sig === 'GIF89a') return 'image/gif';
+  }
+
+  // RIFF containers: WebP and WAV
+  if (ascii(buffer, 0, 4) === 'RIFF') {
+    const format = ascii(buffer, 8, 12);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+  }
+
+  // ISO base media: AVIF, MOV, M4A, otherwise MP4
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    return FTYP_BRANDS[ascii(buffer, 8, 12)] ?? 'video/mp4';
+  }
+
+  // EBML: WebM or Matroska (the doctype follows within the first bytes)
+  if (buffer[0] === 0x1a && buffer[1] === 0x45 && buffer[2] === 0xdf && buffer[3] === 0xa3) {
+    return buffer.includes('matroska') ? 'video/x-matroska' : 'video/webm';
+  }
+
+  if (ascii(buffer, 0, 4) === 'OggS') {
+    return buffer.includes('theora') ? 'video/ogg' : 'audio/ogg';
+  }
+
+  // MP3: ID3 tag or an MPEG audio frame sync
+  if (ascii(buffer, 0, 3) === 'ID3') return 'audio/mpeg';
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0 && (buffer[1] & 0x06) !== 0) {
+    return 'audio/mpeg';
+  }
+
+  return undefined;
+}
+
+export function extensionFromMime(mime: string): string {
+  return MIME_EXTENSIONS[mime] ?? 'bin';
+}
+
+/**
+ * Normalize a declared MIME type: lower case, parameters dropped, common aliases folded.
+ */
+export function normalizeMimeType(mime: string | undefined): string {
+  const value = (mime || '').split(';')[0].trim().toLowerCase();
+  const aliases: Record<string, string> = {
+    'image/jpg': 'image/jpeg',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-m4a': 'audio/mp4',
+  };
+  return aliases[value] ?? value;
+}
+
+export function mediaKindOf(mime: string): MediaKind | undefined {
+  const kind = mime.split('/')[0];
+  return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : undefined;
+}
+
+/**
+ * Check a binary input before it is uploaded. The type is sniffed from the content, falling back
+ * to the declared MIME type. A known type of the wrong kind (an image passed as reference audio,
+ * a PDF) is rejected; content that cannot be identified still goes through to the API.
+ */
+export function checkMediaInput(
+  buffer: Buffer,
+  declaredMime: string | undefined,
+  expected: MediaKind,
+): { mimeType?: string; ok: boolean } {
+  const declared = normalizeMimeType(declaredMime);
+  const mimeType =
+    sniffMimeType(buffer) ?? (declared && declared !== 'application/octet-stream' ? declared : '');
+  if (!mimeType) return { ok: true };
+  const kind = mediaKindOf(mimeType);
+  return { mimeType, ok: kind === expected };
+}
@@ -0,0 +1,200 @@
+import { createHash } from 'crypto';
+
+/**
+ * Tune the model catalog cache with:
+ *
+ *   SOGNI_N8N_MODEL_CACHE_TTL_MS=300000      (fresh for 5 minutes)
+ *   SOGNI_N8N_MODEL_CACHE_STALE_MS=3600000   (then served stale for up to 1 hour while refreshing)
+ */
+export const DEFAULT_CATALOG_TTL_MS = 5 * 60 * 1000;
+export const DEFAULT_CATALOG_STALE_MS = 60 * 60 * 1000;
+const MAX_CACHED_CREDENTIALS = 100;
+
+export interface CatalogCacheOptions {
+  ttlMs?: number;
+  staleMs?: number;
+  now?: () => number;
+}
+
+export type CatalogFreshness = 'fresh' | 'stale' | 'fetched';
+
+interface CatalogEntry<T> {
+  value?: T;
+  fetchedAt: number;
+  pending?: Promise<T>;
+}
+
+function readEnvMs(name: string, fallback: number): number {
+  const raw = (process.env[name] || '').trim();
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Stable cache key for a credential. Hashed so the password never ends up as a map key.
+ */
+export function credentialCacheKey(credentials: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(`${String(credentials.username ?? '')}\0${String(credentials.password ?? '')}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Process-level cache with a TTL and stale-while-revalidate: a fresh entry is returned as is, a
+ * stale one is returned immediately while one background refresh runs, and an expired (or
+ * missing) one is fetched. Concurrent callers for the same key share one fetch.
+ */
+export class CatalogCache<T> {
+  private readonly entries = new Map<string, CatalogEntry<T>>();
+
+  constructor(private readonly options: CatalogCacheOptions = {}) {}
+
+  private get ttlMs(): number {
+    return this.options.ttlMs ?? readEnvMs('SOGNI_N8N_MODEL_CACHE_TTL_MS', DEFAULT_CATALOG_TTL_MS);
+  }
+
+  private get staleMs(): number {
+    return (
+      this.options.staleMs ?? readEnvMs('SOGNI_N8N_MODEL_CACHE_STALE_MS', DEFAULT_CATALOG_STALE_MS)
+    );
+  }
+
+  private now(): number {
+    return this.options.now?.() ?? Date.now();
+  }
+
+  async get(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: { forceRefresh?: boolean } = {},
+  ): Promise<{ value: T; freshness: CatalogFreshness }> {
+    const entry = this.entries.get(key);
+    const age = entry?.value !== undefined ? this.now() - entry.fetchedAt : Infinity;
+
+    if (!options.forceRefresh && entry?.value !== undefined) {
+      if (age <= this.ttlMs) return { value: entry.value, freshness: 'fresh' };
+      if (age <= this.ttlMs + this.staleMs) {
+        // Refresh in the background; keep serving the stale value if that fails
+        this.refresh(key, fetcher).catch(() => undefined);
+        return { value: entry.value, freshness: 'stale' };
+      }
+    }
+
+    return { value: await this.refresh(key, fetcher), freshness: 'fetched' };
+  }
+
+  /**
+   * Drop one credential's entry, or everything.
+   */
+  invalidate(key?: string): void {
+    if (key === undefined) this.entries.clear();
+    else this.entries.delete(key);
+  }
+
+  private refresh(key: string, fetcher: () => Promise<T>): Promise<T> {
+    let entry = this.entries.get(key);
+    if (entry?.pending) return entry.pending;
+    if (!entry) {
+      entry = { fetchedAt: 0 };
+      this.entries.set(key, entry);
+      this.prune();
+    }
+
+    const current = entry;
+    const pending = fetcher()
+      .then((value) => {
+        current.value = value;
+        current.fetchedAt = this.now();
+        return value;
+      })
+      .finally(() => {
+        current.pending = undefined;
+        if (current.value === undefined && this.entries.get(key) === current) {
+          this.entries.delete(key);
+        }
+      });
+    current.pending = pending;
+    return pending;
+  }
+
+  private prune(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_CACHED_CREDENTIALS) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/** Image, video and image-edit models (`getAvailableModels`), shared by all pickers. */
+export const mediaModelCatalog = new CatalogCache<any[]>();
+
+/** Chat models (`waitForChatModels`), shared by the LLM resource and the chat model sub-node. */
+export const chatModelCatalog = new CatalogCache<Record<string, any>>();
+
+const sharedClients = new Map<string, { client: any; users: number }>();
+
+/**
+ * Run `fn` with a client shared by every concurrent caller for the same credential, so the
+ * pickers that load together when a workflow opens log in once. The client is closed when its
+ * last user is done.
+ */
+export async function withSharedClient<R>(
+  key: string,
+  create: () => any,
+  close: (client: any) => Promise<void>,
+  fn: (client: any) => Promise<R>,
+): Promise<R> {
+  let lease = sharedClients.get(key);
+  if (!lease) {
+    lease = { client: create(), users: 0 };
+    sharedClients.set(key, lease);
+  }
+
+  const current = lease;
+  current.users++;
+  try {
+    return await fn(current.client);
+  } finally {
+    current.users--;
+    if (current.users === 0) {
+      if (sharedClients.get(key) === current) sharedClients.delete(key);
+      await close(current.client);
+    }
+  }
+}
+
+/**
+ * Text filter used by the model pickers on the cached list (the search used to go to the API).
+ */
+export function filterModels(models: any[], search: string): any[] {
+  const term = search.trim().toLowerCase();
+  if (!term) return models;
+  return models.filter((model) => {
+    const tags = Array.isArray(model?.tags) ? model.tags : [];
+    const haystack = [model?.id, model?.name, model?.description, ...tags]
+      .filter((value) => typeof value === 'string')
+      .join(' ')
+      .toLowerCase();
+    return haystack.includes(term);
+  });
+}
+
+export function modelWorkerCount(model: any): number {
+  const workers = Number(model?.workerCount ?? model?.workers ?? 0);
+  return Number.isFinite(workers) ? workers : 0;
+}
+
+/**
+ * Local equivalent of `getAvailableModels({ sortByWorkers, minWorkers })` on a cached list.
+ */
+export function selectModels(
+  models: any[],
+  options: { sortByWorkers?: boolean; minWorkers?: number; limit?: number } = {},
+): any[] {
+  let selected = models.filter((model) => modelWorkerCount(model) >= (options.minWorkers ?? 0));
+  if (options.sortByWorkers) {
+    selected = [...selected].sort((a, b) => modelWorkerCount(b) - modelWorkerCount(a));
+  }
+  return options.limit ? selected.slice(0, options.limit) : selected;
+}
@@ -0,0 +1,135 @@
+import { IDataObject, INodeExecutionData } from 'n8n-workflow';
+
+export type OutputMode = 'perProject' | 'perMedia';
+
+export interface SplitMediaOptions {
+  /** JSON key holding the result URLs (`imageUrls` / `videoUrls`) */
+  urlsKey: 'imageUrls' | 'videoUrls';
+  /** Binary property prefix used on the project item (`image`, `image_1`, ...) */
+  binaryPrefix: 'image' | 'video';
+  /** Raw jobs of the project result, used for per-file job IDs and seeds */
+  jobs?: any[];
+  /** Requested seed; only reported for a single-file project when the job has none */
+  seed?: number;
+  itemIndex: number;
+}
+
+export function readOutputMode(value: unknown): OutputMode {
+  return value === 'perMedia' ? 'perMedia' : 'perProject';
+}
+
+/**
+ * Binary property name of the Nth media file on a project item: `image`, `image_1`, `image_2`...
+ */
+export function mediaBinaryPropertyName(prefix: string, index: number): string {
+  return index === 0 ? prefix : `${prefix}_${index}`;
+}
+
+/**
+ * Job behind the Nth result URL: matched by result URL when jobs report one, else by position.
+ */
+export function findMediaJob(jobs: any[] | undefined, url: string, index: number): any {
+  if (!Array.isArray(jobs) || !jobs.length) return undefined;
+  const byUrl = jobs.find((job) => {
+    const resultUrl = job?.resultUrl ?? job?.result?.url ?? job?.url;
+    return typeof resultUrl === 'string' && resultUrl === url;
+  });
+  return byUrl ?? (jobs.length > index ? jobs[index] : undefined);
+}
+
+/**
+ * Seed of one file: the seed its job reports, or the requested seed for a single-file project.
+ */
+export function mediaFileSeed(
+  job: any,
+  requestedSeed: number | undefined,
+  mediaCount: number,
+): number | string | undefined {
+  const seed = job?.seed ?? job?.params?.seed ?? (mediaCount === 1 ? requestedSeed : undefined);
+  return typeof seed === 'number' || typeof seed === 'string' ? seed : undefined;
+}
+
+/**
+ * Turn one project item (all files as `image`, `image_1`, ...) into one item per media file.
+ * Each item keeps the project fields and gets its own `url`, `index`, `seed`, `jobId`, download
+ * stats or error, a single binary under the prefix name, and a `pairedItem` back to the input.
+ */
+export function splitMediaOutput(
+  item: INodeExecutionData,
+  options: SplitMediaOptions,
+): INodeExecutionData[] {
+  const urls: string[] = Array.isArray(item.json[options.urlsKey])
+    ? (item.json[options.urlsKey] as string[])
+    : [];
+  if (!urls.length) return [item];
+
+  const projectJson: IDataObject = { ...item.json };
+  delete projectJson[options.urlsKey];
+  delete projectJson.jobs;
+  delete projectJson.downloads;
+  delete projectJson.downloadErrors;
+  const perFile = (key: string) =>
+    Array.isArray(item.json[key]) ? (item.json[key] as IDataObject[]) : undefined;
+  const downloads = perFile('downloads');
+  const downloadErrors = perFile('downloadErrors');
+
+  return urls.map((url, index) => {
+    const job = findMediaJob(options.jobs, url, index);
+    const binaryName = mediaBinaryPropertyName(options.binaryPrefix, index);
+    const binary = item.binary?.[binaryName];
+    const sidecar = item.binary?.[`${binaryName}_metadata`];
+
+    return {
+      json: {
+        ...projectJson,
+        url,
+        index,
+        mediaCount: urls.length,
+        seed: mediaFileSeed(job, options.seed, urls.length),
+        jobId: job?.id ?? job?.jobId ?? undefined,
+        jobStatus: job?.status ?? undefined,
+        ...(downloads ? { download: downloads.find((entry) => entry.index === index) } : {}),
+        ...(downloadErrors
+          ? { downloadError: downloadErrors.find((entry) => entry.index === index) }
+          : {}),
+      } as IDataObject,
+      binary: {
+        ...(binary ? { [options.binaryPrefix]: binary } : {}),
+        ...(sidecar ? { [`${options.binaryPrefix}_metadata`]: sidecar } : {}),
+      },
+      pairedItem: { item: options.itemIndex },
+    };
+  });
+}
+
+export type IncludeInputData = 'none' | 'json' | 'jsonAndBinary';
+
+export function readIncludeInputData(value: unknown): IncludeInputData {
+  return value === 'json' || value === 'jsonAndBinary' ? value : 'none';
+}
+
+/**
+ * Carry the input item's JSON (and binaries) over to its output items so upstream context such as
+ * a chat or row ID survives the node. Output fields win on name clashes. Every output item is
+ * paired with its input item.
+ */
+export function withInputData(
+  outputs: INodeExecutionData[],
+  input: INodeExecutionData | undefined,
+  mode: IncludeInputData,
+  itemIndex: number,
+): INodeExecutionData[] {
+  return outputs.map((output) => {
+    const merged: INodeExecutionData = {
+      ...output,
+      pairedItem: output.pairedItem ?? { item: itemIndex },
+    };
+    if (mode === 'none' || !input) return merged;
+
+    merged.json = { ...input.json, ...output.json };
+    if (mode === 'jsonAndBinary' && input.binary) {
+      merged.binary = { ...input.binary, ...output.binary };
+    }
+    return merged;
+  });
+}
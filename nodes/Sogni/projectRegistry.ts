@@ -0,0 +1,51 @@
+import { ProjectType } from './projectUtils';
+
+export interface RegisteredProject {
+  projectId: string;
+  projectType: ProjectType;
+  modelId?: string;
+  registeredAt: number;
+}
+
+const REGISTRY_TTL_MS = 24 * 60 * 60 * 1000;
+const REGISTRY_MAX_ENTRIES = 5000;
+
+/**
+ * Process-level record of projects started by Sogni nodes in this n8n instance.
+ *
+ * The Sogni Trigger uses it to tell "our" projects apart from other projects on the same
+ * account and to recover the resource type / model, which job events don't carry. Being
+ * in-memory, it only covers projects started in the same n8n process as the trigger.
+ */
+const registry = new Map<string, RegisteredProject>();
+
+function pruneRegistry(now: number): void {
+  for (const [projectId, entry] of registry) {
+    if (now - entry.registeredAt > REGISTRY_TTL_MS || registry.size > REGISTRY_MAX_ENTRIES) {
+      registry.delete(projectId);
+    } else {
+      // Map iteration is insertion-ordered, so the remaining entries are newer
+      break;
+    }
+  }
+}
+
+export function registerProject(
+  projectId: string,
+  details: { projectType: ProjectType; modelId?: string },
+): void {
+  if (!projectId) return;
+  const now = Date.now();
+  registry.delete(projectId);
+  registry.set(projectId, { projectId, ...details, registeredAt: now });
+  pruneRegistry(now);
+}
+
+export function getRegisteredProject(projectId: string): RegisteredProject | undefined {
+  return registry.get(projectId);
+}
+
+export function listRegisteredProjects(): RegisteredProject[] {
+  pruneRegistry(Date.now());
+  return Array.from(registry.values());
+}
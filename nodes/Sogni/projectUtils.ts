@@ -0,0 +1,457 @@
+import { getRegisteredProject } from './projectRegistry';
+
+export type ProjectType = 'image' | 'video';
+
+export type ProjectState =
+  | 'pending'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'canceled'
+  | 'unknown';
+
+export interface ProjectJobSummary {
+  id?: string;
+  status: ProjectState;
+  rawStatus?: string;
+  progress?: number;
+  resultUrl?: string;
+  workerName?: string;
+  error?: string;
+}
+
+export interface ProjectStatusSummary {
+  projectId: string;
+  status: ProjectState;
+  progress: number;
+  completed: boolean;
+  jobs: ProjectJobSummary[];
+  resultUrls: string[];
+}
+
+const TERMINAL_STATES: ProjectState[] = ['completed', 'failed', 'canceled'];
+
+/**
+ * Every status the SDK reports: raw project statuses (`RawProject.status`), worker job statuses
+ * (`RawJob.status`), the normalized `getStatus` / `Project` / `Job` names and socket job events.
+ */
+const STATE_ALIASES: Record<string, ProjectState> = {
+  pending: 'pending',
+  authorized: 'pending',
+  created: 'queued',
+  submitted: 'queued',
+  queued: 'queued',
+  active: 'queued',
+  awaiting: 'queued',
+  assigned: 'processing',
+  initiating: 'processing',
+  initiatingmodel: 'processing',
+  jobstarted: 'processing',
+  started: 'processing',
+  progress: 'processing',
+  jobprogress: 'processing',
+  processing: 'processing',
+  running: 'processing',
+  inprogress: 'processing',
+  completed: 'completed',
+  jobcompleted: 'completed',
+  complete: 'completed',
+  done: 'completed',
+  success: 'completed',
+  failed: 'failed',
+  jobfailed: 'failed',
+  joberror: 'failed',
+  error: 'failed',
+  errored: 'failed',
+  canceled: 'canceled',
+  cancelled: 'canceled',
+  jobcanceled: 'canceled',
+  jobcancelled: 'canceled',
+};
+
+export function normalizeProjectState(raw?: unknown): ProjectState {
+  if (typeof raw !== 'string') return 'unknown';
+  const key = raw.trim().toLowerCase().replace(/[\s_-]/g, '');
+  return STATE_ALIASES[key] ?? 'unknown';
+}
+
+export function isTerminalProjectState(state: ProjectState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+export function extractProjectId(result: any): string | undefined {
+  const id = result?.projectId ?? result?.project?.id ?? result?.id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+function normalizeProgress(value: unknown): number | undefined {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return undefined;
+  // Accept both 0-1 fractions and 0-100 percentages
+  const pct = num <= 1 ? num * 100 : num;
+  return Math.max(0, Math.min(100, Math.round(pct)));
+}
+
+function pickResultUrl(job: any): string | undefined {
+  const url =
+    job?.resultUrl ??
+    job?.resultURL ??
+    job?.url ??
+    job?.imageUrl ??
+    job?.videoUrl ??
+    (Array.isArray(job?.resultUrls) ? job.resultUrls[0] : undefined);
+  return typeof url === 'string' && url ? url : undefined;
+}
+
+export function normalizeProjectJob(job: any): ProjectJobSummary {
+  const rawStatus = job?.status ?? job?.state ?? job?.jobState;
+  const resultUrl = pickResultUrl(job);
+  let status = normalizeProjectState(rawStatus);
+  if (status === 'unknown' && resultUrl) status = 'completed';
+
+  return {
+    // Raw REST jobs carry both a record `id` and the `imgID` that SDK job events call the job ID
+    id: job?.imgID ?? job?.id ?? job?.jobId ?? undefined,
+    status,
+    rawStatus: typeof rawStatus === 'string' ? rawStatus : undefined,
+    progress: status === 'completed' ? 100 : normalizeProgress(job?.progress),
+    resultUrl,
+    workerName: job?.workerName ?? job?.worker?.name ?? undefined,
+    error: job?.error?.message ?? (typeof job?.error === 'string' ? job.error : undefined),
+  };
+}
+
+function deriveStateFromJobs(jobs: ProjectJobSummary[]): ProjectState {
+  if (jobs.length === 0) return 'unknown';
+  if (jobs.every((job) => job.status === 'completed')) return 'completed';
+  if (jobs.some((job) => job.status === 'processing')) return 'processing';
+  if (jobs.every((job) => isTerminalProjectState(job.status))) {
+    if (jobs.some((job) => job.status === 'completed')) return 'completed';
+    return jobs.some((job) => job.status === 'failed') ? 'failed' : 'canceled';
+  }
+  return 'queued';
+}
+
+/**
+ * Reduce the many shapes a project lookup can return (wrapper result, raw SDK entity,
+ * REST payload) to one stable summary for node output.
+ */
+export function normalizeProjectStatus(raw: any, projectId: string): ProjectStatusSummary {
+  const source = raw?.project ?? raw ?? {};
+  // The live lookup splits jobs into running and finished arrays
+  const rawJobs: any[] = Array.isArray(source.jobs)
+    ? source.jobs
+    : [
+        ...(Array.isArray(source.workerJobs) ? source.workerJobs : []),
+        ...(Array.isArray(source.completedWorkerJobs) ? source.completedWorkerJobs : []),
+      ];
+
+  const jobs = rawJobs.map((job) => normalizeProjectJob(job));
+
+  const explicitUrls: string[] = [
+    ...(Array.isArray(raw?.imageUrls) ? raw.imageUrls : []),
+    ...(Array.isArray(raw?.videoUrls) ? raw.videoUrls : []),
+    ...(Array.isArray(source.resultUrls) ? source.resultUrls : []),
+  ].filter((url) => typeof url === 'string' && url);
+  const resultUrls = Array.from(
+    new Set([...explicitUrls, ...jobs.map((job) => job.resultUrl).filter((url): url is string => !!url)]),
+  );
+
+  let status = normalizeProjectState(source.status ?? source.state);
+  if (status === 'unknown') status = deriveStateFromJobs(jobs);
+  if (status === 'unknown' && (raw?.completed === true || source.completed === true)) status = 'completed';
+
+  const jobProgress = jobs
+    .map((job) => job.progress)
+    .filter((value): value is number => typeof value === 'number');
+  const progress =
+    status === 'completed'
+      ? 100
+      : normalizeProgress(source.progress) ??
+        (jobProgress.length ? Math.round(jobProgress.reduce((a, b) => a + b, 0) / Math.max(jobs.length, 1)) : 0);
+
+  return {
+    projectId: extractProjectId(source) ?? projectId,
+    status,
+    progress,
+    completed: status === 'completed',
+    jobs,
+    resultUrls,
+  };
+}
+
+/**
+ * The wrapper keeps its @sogni-ai/sogni-client instance on `client` (the same field
+ * `disconnectClientSafely` closes the socket through). APIs the wrapper does not re-export,
+ * such as project status, cancellation and URL signing, are reached through it.
+ */
+export function resolveSdkClient(client: any): any {
+  return client?.client ?? undefined;
+}
+
+async function resolveMissingResultUrls(
+  client: any,
+  summary: ProjectStatusSummary,
+  projectType: ProjectType,
+): Promise<void> {
+  const projects = resolveSdkClient(client)?.projects;
+  if (!projects) return;
+
+  const resolveUrl =
+    projectType === 'video' && typeof projects.mediaDownloadUrl === 'function'
+      ? (jobId: string) =>
+          projects.mediaDownloadUrl({ jobId: summary.projectId, id: jobId, type: 'complete' })
+      : typeof projects.downloadUrl === 'function'
+      ? (jobId: string) =>
+          projects.downloadUrl({ jobId: summary.projectId, imageId: jobId, type: 'complete' })
+      : undefined;
+  if (!resolveUrl) return;
+
+  for (const job of summary.jobs) {
+    if (job.status !== 'completed' || job.resultUrl || !job.id) continue;
+    try {
+      const url = await resolveUrl(job.id);
+      if (typeof url === 'string' && url) {
+        job.resultUrl = url;
+        if (!summary.resultUrls.includes(url)) summary.resultUrls.push(url);
+      }
+    } catch {
+      // URL signing is best-effort; the job state is still reported
+    }
+  }
+}
+
+/**
+ * A project can 404 for a short while after submission, before the server has registered it.
+ * Within this window a 404 for a project started by this n8n process means "pending".
+ */
+const RECENT_PROJECT_GRACE_MS = 2 * 60 * 1000;
+
+function isNotFoundError(error: unknown): boolean {
+  const status = (error as any)?.status ?? (error as any)?.statusCode;
+  if (status === 404) return true;
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /\b404\b|not found/i.test(message);
+}
+
+function isRecentlySubmitted(projectId: string): boolean {
+  const entry = getRegisteredProject(projectId);
+  return !!entry && Date.now() - entry.registeredAt <= RECENT_PROJECT_GRACE_MS;
+}
+
+/**
+ * Read a project through the SDK's owner-scoped live lookup (`projects.getStatus`), which
+ * answers while the project is still queued or rendering. `projects.get` only answers once a
+ * project has finished and 404s until then, so it cannot be used for polling.
+ */
+async function lookupRawProject(client: any, projectId: string): Promise<unknown> {
+  const projects = resolveSdkClient(client)?.projects;
+  if (typeof projects?.getStatus !== 'function') {
+    throw new Error('The installed Sogni client does not support project status lookups');
+  }
+
+  let raw: unknown;
+  try {
+    raw = await projects.getStatus(projectId);
+  } catch (error) {
+    if (isNotFoundError(error) && isRecentlySubmitted(projectId)) {
+      return { id: projectId, status: 'pending', workerJobs: [], completedWorkerJobs: [] };
+    }
+    if (isNotFoundError(error)) {
+      throw new Error(`Project "${projectId}" was not found`);
+    }
+    throw error;
+  }
+
+  if (!raw) {
+    throw new Error(`Project "${projectId}" was not found`);
+  }
+  return raw;
+}
+
+export async function fetchProjectStatus(
+  client: any,
+  projectId: string,
+  projectType: ProjectType,
+): Promise<ProjectStatusSummary> {
+  const raw = await lookupRawProject(client, projectId);
+  const summary = normalizeProjectStatus(raw, projectId);
+  await resolveMissingResultUrls(client, summary, projectType);
+  return summary;
+}
+
+export interface ProjectCancellation {
+  projectId: string;
+  canceled: boolean;
+  canceledJobs: string[];
+  error?: string;
+}
+
+export function normalizeCancellation(raw: any, projectId: string): ProjectCancellation {
+  const jobs: any[] = Array.isArray(raw?.canceledJobs)
+    ? raw.canceledJobs
+    : Array.isArray(raw?.cancelledJobs)
+    ? raw.cancelledJobs
+    : Array.isArray(raw?.jobs)
+    ? raw.jobs.filter((job: any) => normalizeProjectState(job?.status ?? job?.state) === 'canceled')
+    : [];
+
+  const canceledJobs = jobs
+    .map((job) => (typeof job === 'string' ? job : job?.id ?? job?.jobId))
+    .filter((id): id is string => typeof id === 'string' && !!id);
+
+  return {
+    projectId,
+    canceled: raw?.success !== false && raw?.canceled !== false,
+    canceledJobs,
+  };
+}
+
+/**
+ * Ask Sogni to stop a project so it no longer renders (and burns tokens) on the Supernet.
+ * The SDK's `projects.cancel` resolves once the server confirms and returns nothing, so refunds
+ * are not reported; the cancelled jobs come from a status lookup afterwards.
+ */
+export async function cancelProject(client: any, projectId: string): Promise<ProjectCancellation> {
+  const projects = resolveSdkClient(client)?.projects;
+
+  try {
+    if (typeof projects?.cancel !== 'function') {
+      throw new Error('The installed Sogni client does not support project cancellation');
+    }
+    const cancellation = normalizeCancellation(await projects.cancel(projectId), projectId);
+
+    // The cancel call does not list jobs; fall back to a status lookup to report them.
+    if (cancellation.canceledJobs.length === 0) {
+      try {
+        const status = normalizeProjectStatus(await lookupRawProject(client, projectId), projectId);
+        cancellation.canceledJobs = status.jobs
+          .filter((job) => job.status === 'canceled' && job.id)
+          .map((job) => job.id as string);
+      } catch {
+        // ignore: the cancellation itself succeeded
+      }
+    }
+
+    return cancellation;
+  } catch (error) {
+    return {
+      projectId,
+      canceled: false,
+      canceledJobs: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+const PROJECT_EVENT_NAMES = ['project', 'job', 'jobState', 'jobProgress', 'jobResult'] as const;
+
+/**
+ * Collect IDs of projects created while a blocking wrapper call is in flight. The wrapper only
+ * hands back the project ID once the call resolves, which is too late to cancel on timeout/abort.
+ *
+ * When several calls share one client, pass the same `claimed` set to every tracker: an ID
+ * already claimed by another tracker is ignored, and `maxProjects` stops a tracker from picking
+ * up projects started after its own.
+ */
+export function trackProjectIds(
+  client: any,
+  onProjectId?: (projectId: string) => void,
+  options: { claimed?: Set<string>; maxProjects?: number } = {},
+): { projectIds: Set<string>; dispose: () => void } {
+  const projectIds = new Set<string>();
+  const emitters = [client, resolveSdkClient(client)?.projects].filter(
+    (emitter) => emitter && typeof emitter.on === 'function',
+  );
+
+  const listener = (event: any) => {
+    const id = event?.projectId ?? event?.project?.id;
+    if (typeof id !== 'string' || !id || projectIds.has(id)) return;
+    if (options.claimed?.has(id)) return;
+    if (options.maxProjects !== undefined && projectIds.size >= options.maxProjects) return;
+    projectIds.add(id);
+    options.claimed?.add(id);
+    onProjectId?.(id);
+  };
+
+  for (const emitter of emitters) {
+    for (const name of PROJECT_EVENT_NAMES) {
+      try {
+        emitter.on(name, listener);
+      } catch {
+        // ignore emitters that reject unknown event names
+      }
+    }
+  }
+
+  return {
+    projectIds,
+    dispose: () => {
+      for (const id of projectIds) options.claimed?.delete(id);
+      for (const emitter of emitters) {
+        const off = typeof emitter.off === 'function' ? emitter.off : emitter.removeListener;
+        if (typeof off !== 'function') continue;
+        for (const name of PROJECT_EVENT_NAMES) {
+          try {
+            off.call(emitter, name, listener);
+          } catch {
+            // ignore
+          }
+        }
+      }
+    },
+  };
+}
+
+export function isTimeoutError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /timed?\s*out|timeout/i.test(message);
+}
+
+export interface ProjectJobEvent {
+  event: 'jobState' | 'jobResult';
+  projectId: string;
+  jobId?: string;
+  state: ProjectState;
+  rawState?: string;
+  success?: boolean;
+  resultUrl?: string;
+  modelId?: string;
+  error?: string;
+}
+
+/**
+ * Normalize socket-level (jobState/jobResult) and SDK-level (job) events into one shape.
+ * Returns undefined for events that cannot be attributed to a project.
+ */
+export function normalizeJobEvent(name: string, payload: any): ProjectJobEvent | undefined {
+  const projectId = payload?.projectId ?? payload?.project?.id;
+  if (typeof projectId !== 'string' || !projectId) return undefined;
+
+  const rawState = payload?.type ?? payload?.state ?? payload?.status;
+  const error =
+    payload?.error?.message ?? (typeof payload?.error === 'string' ? payload.error : undefined);
+  const modelId = payload?.modelId ?? payload?.model;
+  let state = normalizeProjectState(rawState);
+
+  const isResult =
+    name === 'jobResult' ||
+    (name === 'job' && (state === 'completed' || state === 'failed' || state === 'canceled'));
+
+  if (name === 'jobResult') {
+    state = payload?.success === false || error || state === 'failed' ? 'failed' : 'completed';
+  }
+
+  return {
+    event: isResult ? 'jobResult' : 'jobState',
+    projectId,
+    jobId: payload?.jobId ?? payload?.job?.id ?? payload?.imgID ?? undefined,
+    state,
+    rawState: typeof rawState === 'string' ? rawState : undefined,
+    success: isResult ? state === 'completed' : undefined,
+    resultUrl: pickResultUrl(payload),
+    modelId: typeof modelId === 'string' && modelId ? modelId : undefined,
+    error,
+  };
+}
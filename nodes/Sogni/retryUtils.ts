@@ -0,0 +1,224 @@
+import { isTimeoutError } from './projectUtils';
+
+/**
+ * Machine-readable error classes reported as `errorCode` on failed items.
+ */
+export type SogniErrorCode =
+  | 'AUTH'
+  | 'INSUFFICIENT_BALANCE'
+  | 'VALIDATION'
+  | 'NO_WORKERS'
+  | 'WORKER_FAILURE'
+  | 'TIMEOUT'
+  | 'SOCKET_DROP'
+  | 'BUDGET_EXCEEDED'
+  | 'CANCELED'
+  | 'UNKNOWN';
+
+export interface ErrorClassification {
+  code: SogniErrorCode;
+  retryable: boolean;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (0 = no retries) */
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Fraction of the delay randomized in both directions (0-1) */
+  jitter: number;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  errorCode: SogniErrorCode;
+  message: string;
+  delayMs: number;
+}
+
+/** Retries are opt-in: a retried generation is a new, separately billed project. */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 0,
+  initialDelayMs: 2000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+const RETRYABLE_CODES: ReadonlySet<SogniErrorCode> = new Set<SogniErrorCode>([
+  'NO_WORKERS',
+  'WORKER_FAILURE',
+  'TIMEOUT',
+  'SOCKET_DROP',
+]);
+
+const SOCKET_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ENOTCONN',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+]);
+
+function readStatus(error: any): number | undefined {
+  const status =
+    error?.status ?? error?.statusCode ?? error?.response?.status ?? error?.httpCode ?? error?.code;
+  const num = typeof status === 'string' && /^\d{3}$/.test(status) ? Number(status) : status;
+  return typeof num === 'number' && num >= 100 && num < 600 ? num : undefined;
+}
+
+/**
+ * Sort an error from the SDK, the socket or the node itself into one of the error classes.
+ * Only no-workers, worker failures, timeouts and socket drops are worth retrying, and only when
+ * the error context does not set `retryable: false` (the node's own cancellations do).
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const err = error as any;
+  const preset = err?.context?.errorCode ?? err?.errorCode;
+  const code = preset && typeof preset === 'string' ? (preset as SogniErrorCode) : detectCode(err);
+  return { code, retryable: RETRYABLE_CODES.has(code) && err?.context?.retryable !== false };
+}
+
+const AUTH_PATTERN =
+  /unauthori[sz]ed|invalid (credentials|password|username|token)|authentication|forbidden/i;
+const BALANCE_PATTERN = /insufficient (funds|balance|tokens)|not enough (tokens|balance|funds)/i;
+const NO_WORKERS_PATTERN = /no (available |active )?workers?|workers? (are )?(not )?available/i;
+const WORKER_FAILURE_PATTERN =
+  /worker (failed|error|crashed|disconnected)|job ?failed|generation failed/i;
+const SOCKET_PATTERN =
+  /socket hang up|socket (closed|disconnected)|websocket|connection (closed|lost|reset)|disconnect/i;
+const VALIDATION_PATTERN = /invalid|validation|required|must be|not supported|not found/i;
+
+function detectCode(err: any): SogniErrorCode {
+  const message = String(err?.message ?? err ?? '');
+  const status = readStatus(err);
+  const errno = typeof err?.code === 'string' ? err.code.toUpperCase() : '';
+
+  if (err?.context?.budget) return 'BUDGET_EXCEEDED';
+  if (/execution was (stopped|aborted|canceled)/i.test(message)) return 'CANCELED';
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return 'AUTH';
+  if (status === 402 || BALANCE_PATTERN.test(message)) return 'INSUFFICIENT_BALANCE';
+  if (NO_WORKERS_PATTERN.test(message)) return 'NO_WORKERS';
+  if (WORKER_FAILURE_PATTERN.test(message)) return 'WORKER_FAILURE';
+  if (SOCKET_ERROR_CODES.has(errno) || SOCKET_PATTERN.test(message)) return 'SOCKET_DROP';
+  if (errno === 'ETIMEDOUT' || isTimeoutError(err)) return 'TIMEOUT';
+  if (
+    status === 400 ||
+    status === 404 ||
+    status === 422 ||
+    err?.name === 'NodeOperationError' ||
+    VALIDATION_PATTERN.test(message)
+  ) {
+    return 'VALIDATION';
+  }
+  if (status !== undefined && status >= 500) return 'WORKER_FAILURE';
+  return 'UNKNOWN';
+}
+
+/**
+ * Read the retry fields of the "Execution Options" collection.
+ */
+export function readRetryOptions(raw: Record<string, any> | undefined): RetryOptions {
+  const pick = (value: unknown, fallback: number, min: number, max: number) => {
+    const num = typeof value === 'string' && value.trim() ? Number(value) : value;
+    if (typeof num !== 'number' || !Number.isFinite(num)) return fallback;
+    return Math.min(max, Math.max(min, num));
+  };
+  const defaults = DEFAULT_RETRY_OPTIONS;
+  const initialDelayMs = pick(raw?.retryInitialDelayMs, defaults.initialDelayMs, 0, 600000);
+  const maxDelayMs = pick(raw?.retryMaxDelayMs, defaults.maxDelayMs, 0, 600000);
+  return {
+    maxRetries: Math.floor(pick(raw?.maxRetries, defaults.maxRetries, 0, 10)),
+    initialDelayMs,
+    maxDelayMs: Math.max(initialDelayMs, maxDelayMs),
+    multiplier: defaults.multiplier,
+    jitter: pick(raw?.retryJitter, defaults.jitter, 0, 1),
+  };
+}
+
+/**
+ * Exponential backoff for the given retry (1-based), capped at maxDelayMs, with +/- jitter.
+ */
+export function computeBackoffDelay(
+  retry: number,
+  options: RetryOptions,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, Math.max(0, retry - 1)),
+  );
+  const spread = base * options.jitter * (random() * 2 - 1);
+  return Math.round(Math.min(options.maxDelayMs, Math.max(0, base + spread)));
+}
+
+/**
+ * Wait `ms`, rejecting as soon as `signal` aborts.
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Execution was canceled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Execution was canceled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `fn`, retrying transient failures with exponential backoff and jitter. `beforeRetry` runs
+ * ahead of each retry (e.g. to reconnect a dropped socket). The final error carries its
+ * classification and the attempts made in `error.context`.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions & {
+    signal?: AbortSignal;
+    beforeRetry?: (failure: RetryAttempt) => Promise<void> | void;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+    random?: () => number;
+  },
+): Promise<T> {
+  const attempts: RetryAttempt[] = [];
+  const wait = options.sleep ?? abortableSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const { code, retryable } = classifyError(error);
+      const message = error instanceof Error ? error.message : String(error);
+      const canRetry = retryable && attempt <= options.maxRetries && !options.signal?.aborted;
+
+      if (!canRetry) {
+        if (error && typeof error === 'object') {
+          const err = error as any;
+          err.context = { ...(err.context ?? {}), errorCode: code };
+          if (attempts.length) err.context.retries = attempts;
+        }
+        throw error;
+      }
+
+      const failure: RetryAttempt = {
+        attempt,
+        errorCode: code,
+        message,
+        delayMs: computeBackoffDelay(attempt, options, options.random),
+      };
+      attempts.push(failure);
+      await wait(failure.delayMs, options.signal);
+      await options.beforeRetry?.(failure);
+    }
+  }
+}
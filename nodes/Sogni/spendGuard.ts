@@ -0,0 +1,245 @@
+export type SpendTokenType = 'spark' | 'sogni';
+
+export interface SpendGuardOptions {
+  tokenType: SpendTokenType;
+  /** Max estimated spend across the whole workflow execution (0 = unlimited) */
+  executionBudget: number;
+  /** Max estimated cost of a single item's job (0 = unlimited) */
+  itemBudget: number;
+  /** Refuse jobs that would leave the balance below this (0 = no balance check) */
+  balanceFloor: number;
+  onExceeded: 'error' | 'skip';
+}
+
+export interface SpendDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface SpendReport {
+  tokenType: SpendTokenType;
+  estimatedCost?: number;
+  itemCost?: number;
+  executionSpent: number;
+  executionBudget?: number;
+  remainingBudget?: number;
+  itemBudget?: number;
+  balanceBefore?: number;
+  balanceFloor?: number;
+  jobs: number;
+  skipped: number;
+}
+
+interface ExecutionSpend {
+  spent: number;
+  jobs: number;
+  skipped: number;
+  /** Reserved jobs that have not been settled or released yet */
+  inFlight: number;
+  /** Estimates of the in-flight jobs, which the balance does not reflect yet */
+  reserved: number;
+  touchedAt: number;
+}
+
+/**
+ * n8n gives nodes no hook for the end of an execution, so an execution's entry is dropped once
+ * it has had no job in flight for this long (or right away when the execution is cancelled).
+ */
+const SPEND_IDLE_TTL_MS = 60 * 60 * 1000;
+const SPEND_MAX_EXECUTIONS = 5000;
+
+/**
+ * Process-level spend per execution and token type. Keyed by execution ID so every Sogni node
+ * in the execution, and every pass of a loop over the same node, draws from one budget.
+ */
+const executionSpend = new Map<string, ExecutionSpend>();
+
+/**
+ * Forget the spend of an execution (all token types), e.g. when it is cancelled.
+ */
+export function clearExecutionSpend(executionId: string): void {
+  for (const key of [...executionSpend.keys()]) {
+    if (key.startsWith(`${executionId}:`)) executionSpend.delete(key);
+  }
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === 'string' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : 0;
+}
+
+/**
+ * Read the budget fields of the "Execution Options" collection. Returns undefined when no limit
+ * is configured, so callers can skip the estimate/balance round-trips entirely.
+ */
+export function readSpendGuardOptions(
+  raw: Record<string, any> | undefined,
+): SpendGuardOptions | undefined {
+  if (!raw) return undefined;
+  const options: SpendGuardOptions = {
+    tokenType: raw.budgetTokenType === 'sogni' ? 'sogni' : 'spark',
+    executionBudget: Math.max(0, toNumber(raw.executionBudget)),
+    itemBudget: Math.max(0, toNumber(raw.itemBudget)),
+    balanceFloor: Math.max(0, toNumber(raw.balanceFloor)),
+    onExceeded: raw.onBudgetExceeded === 'skip' ? 'skip' : 'error',
+  };
+  if (!options.executionBudget && !options.itemBudget && !options.balanceFloor) return undefined;
+  return options;
+}
+
+export function readBalance(balance: unknown, tokenType: SpendTokenType): number | undefined {
+  if (!balance || typeof balance !== 'object') return undefined;
+  const value = (balance as Record<string, unknown>)[tokenType];
+  const num = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+export class SpendTracker {
+  private readonly key: string;
+
+  constructor(
+    executionId: string,
+    readonly options: SpendGuardOptions,
+  ) {
+    this.key = `${executionId}:${options.tokenType}`;
+  }
+
+  private get entry(): ExecutionSpend {
+    let entry = executionSpend.get(this.key);
+    if (!entry) {
+      entry = { spent: 0, jobs: 0, skipped: 0, inFlight: 0, reserved: 0, touchedAt: Date.now() };
+      pruneExecutionSpend(entry.touchedAt);
+      executionSpend.set(this.key, entry);
+    }
+    return entry;
+  }
+
+  get spent(): number {
+    return this.entry.spent;
+  }
+
+  /**
+   * Decide whether a job with this estimated cost may run.
+   */
+  evaluate(jobTokenType: SpendTokenType, estimate: number, balance?: number): SpendDecision {
+    const { options } = this;
+    if (jobTokenType !== options.tokenType) {
+      return {
+        allowed: false,
+        reason: `Budget is set in ${options.tokenType} but this job pays with ${jobTokenType}`,
+      };
+    }
+    if (options.itemBudget && estimate > options.itemBudget) {
+      return {
+        allowed: false,
+        reason:
+          `Estimated cost ${estimate} exceeds the per-item budget of ` +
+          `${options.itemBudget} ${options.tokenType}`,
+      };
+    }
+    if (options.executionBudget && this.spent + estimate > options.executionBudget) {
+      return {
+        allowed: false,
+        reason:
+          `Estimated cost ${estimate} would exceed the execution budget ` +
+          `(${round(this.spent)} of ${options.executionBudget} ${options.tokenType} already spent)`,
+      };
+    }
+    if (options.balanceFloor) {
+      if (balance === undefined) {
+        return { allowed: false, reason: `Could not read the ${options.tokenType} balance` };
+      }
+      // Jobs still running in this execution have not been billed, so the balance reads high
+      const { reserved } = this.entry;
+      if (balance - reserved - estimate < options.balanceFloor) {
+        const held = reserved ? `, ${round(reserved)} of it held by running jobs` : '';
+        return {
+          allowed: false,
+          reason:
+            `Estimated cost ${estimate} would leave the ${options.tokenType} balance ` +
+            `(${balance}${held}) below the floor of ${options.balanceFloor}`,
+        };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Count an allowed job's estimate against the budget right away, so items running in
+   * parallel cannot all pass the check before any of them is recorded.
+   */
+  reserve(estimate: number): void {
+    const entry = this.entry;
+    entry.spent += Math.max(0, estimate);
+    entry.reserved += Math.max(0, estimate);
+    entry.jobs++;
+    entry.inFlight++;
+    entry.touchedAt = Date.now();
+  }
+
+  /**
+   * Replace a reserved estimate with the cost the network reported for the finished job.
+   */
+  settle(estimate: number, actual: number): void {
+    const entry = this.entry;
+    entry.spent = Math.max(0, entry.spent - Math.max(0, estimate) + Math.max(0, actual));
+    entry.reserved = entry.inFlight > 1 ? Math.max(0, entry.reserved - Math.max(0, estimate)) : 0;
+    entry.inFlight = Math.max(0, entry.inFlight - 1);
+    entry.touchedAt = Date.now();
+  }
+
+  /**
+   * Give back a reserved estimate whose job failed, timed out or was cancelled before settling.
+   */
+  release(estimate: number): void {
+    const entry = this.entry;
+    entry.spent = Math.max(0, entry.spent - Math.max(0, estimate));
+    entry.jobs = Math.max(0, entry.jobs - 1);
+    entry.reserved = entry.inFlight > 1 ? Math.max(0, entry.reserved - Math.max(0, estimate)) : 0;
+    entry.inFlight = Math.max(0, entry.inFlight - 1);
+    entry.touchedAt = Date.now();
+  }
+
+  recordSkip(): void {
+    const entry = this.entry;
+    entry.skipped++;
+    entry.touchedAt = Date.now();
+  }
+
+  report(
+    details: { estimatedCost?: number; itemCost?: number; balanceBefore?: number } = {},
+  ): SpendReport {
+    const { options } = this;
+    const entry = this.entry;
+    return {
+      tokenType: options.tokenType,
+      estimatedCost: details.estimatedCost,
+      itemCost: details.itemCost,
+      executionSpent: round(entry.spent),
+      executionBudget: options.executionBudget || undefined,
+      remainingBudget: options.executionBudget
+        ? round(Math.max(0, options.executionBudget - entry.spent))
+        : undefined,
+      itemBudget: options.itemBudget || undefined,
+      balanceBefore: details.balanceBefore,
+      balanceFloor: options.balanceFloor || undefined,
+      jobs: entry.jobs,
+      skipped: entry.skipped,
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function pruneExecutionSpend(now: number): void {
+  for (const [key, entry] of executionSpend) {
+    if (!entry.inFlight && now - entry.touchedAt > SPEND_IDLE_TTL_MS) executionSpend.delete(key);
+  }
+  // Oldest first; only reached when thousands of executions are running at once
+  for (const key of executionSpend.keys()) {
+    if (executionSpend.size < SPEND_MAX_EXECUTIONS) break;
+    executionSpend.delete(key);
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  IDataObject,
+  INodeType,
+  INodeTypeDescription,
+  ITriggerFunctions,
+  ITriggerResponse,
+} from 'n8n-workflow';
+
+import { SogniClientWrapper } from '@sogni-ai/sogni-intelligence-client';
+import { debugLogAppId, generateUniqueAppId, safeDisconnect } from '../Sogni/clientUtils';
+import { ProjectJobEvent, resolveSdkClient } from '../Sogni/projectUtils';
+import { getRegisteredProject } from '../Sogni/projectRegistry';
+import { createJobEventFilter, createRegisteredProjectPoller, listenForJobEvents } from './jobEvents';
+
+const RECONNECT_DELAY_MS = 5000;
+const STATUS_POLL_INTERVAL_MS = 15_000;
+
+function parseModelFilter(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export class SogniTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Sogni AI Trigger',
+    name: 'sogniTrigger',
+    icon: 'file:sogni.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["events"].join(", ")}}',
+    description: 'Starts the workflow when Sogni AI projects report job results or state changes',
+    defaults: {
+      name: 'Sogni AI Trigger',
+    },
+    inputs: [],
+    outputs: ['main'],
+    credentials: [
+      {
+        name: 'sogniApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Events',
+        name: 'events',
+        type: 'multiOptions',
+        required: true,
+        options: [
+          {
+            name: 'Job Result',
+            value: 'jobResult',
+            description: 'A job finished (successfully or not)',
+          },
+          {
+            name: 'Job State Changed',
+            value: 'jobState',
+            description: 'A job was queued, started, or changed state',
+          },
+        ],
+        default: ['jobResult'],
+      },
+      {
+        displayName: 'Only Projects From This n8n Instance',
+        name: 'onlyOwnProjects',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to only emit events for projects started by Sogni nodes in this n8n process. Projects started on queue-mode workers or before a restart are not known to this process, so they never fire while this is on.',
+      },
+      {
+        displayName: 'Filters',
+        name: 'filters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        options: [
+          {
+            displayName: 'Resource Type',
+            name: 'resourceType',
+            type: 'options',
+            options: [
+              { name: 'Any', value: 'any' },
+              { name: 'Image', value: 'image' },
+              { name: 'Video', value: 'video' },
+            ],
+            default: 'any',
+            description:
+              'Only emit events for this kind of project. Requires the project to have been started in this n8n instance.',
+          },
+          {
+            displayName: 'Outcome',
+            name: 'outcome',
+            type: 'options',
+            options: [
+              { name: 'Any', value: 'any' },
+              { name: 'Success', value: 'success' },
+              { name: 'Failure', value: 'failure' },
+            ],
+            default: 'any',
+            description: 'Only emit job results with this outcome (state events are not affected)',
+          },
+          {
+            displayName: 'Model IDs',
+            name: 'modelIds',
+            type: 'string',
+            default: '',
+            description: 'Comma-separated list of model IDs to emit events for. Leave empty for all models.',
+            placeholder: 'flux1-schnell-fp8, wan_v2.2-14b-fp8_t2v_lightx2v',
+          },
+        ],
+      },
+    ],
+  };
+
+  async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+    const credentials = await this.getCredentials('sogniApi');
+    const events = this.getNodeParameter('events', []) as string[];
+    const onlyOwnProjects = this.getNodeParameter('onlyOwnProjects', true) as boolean;
+    const filters = (this.getNodeParameter('filters', {}) as IDataObject) || {};
+    const resourceType = (filters.resourceType as string) || 'any';
+    const outcome = (filters.outcome as string) || 'any';
+    const modelIds = parseModelFilter(String(filters.modelIds ?? ''));
+
+    // IMPORTANT: Always use a dedicated appId so this long-lived listener cannot take over
+    // the socket of a running workflow execution.
+    const appId = generateUniqueAppId('n8n-sogni-trigger');
+    debugLogAppId(`trigger node="${this.getNode().name}" appId=${appId}`);
+
+    const client: any = new SogniClientWrapper({
+      username: credentials.username as string,
+      password: credentials.password as string,
+      appId,
+      autoConnect: true,
+      debug: false,
+    });
+
+    const shouldEmit = createJobEventFilter({
+      events,
+      onlyOwnProjects,
+      resourceType,
+      outcome,
+      modelIds,
+    });
+    const onEvent = (event: ProjectJobEvent) => {
+      if (!shouldEmit(event)) return;
+
+      const registered = getRegisteredProject(event.projectId);
+      this.emit([
+        this.helpers.returnJsonArray([
+          {
+            ...event,
+            projectType: registered?.projectType,
+            modelId: event.modelId ?? registered?.modelId,
+            receivedAt: new Date().toISOString(),
+          },
+        ]),
+      ]);
+    };
+
+    // Socket events only reliably reach the connection that submitted a project, and this
+    // listener has its own. Projects started by Sogni nodes in this process are therefore also
+    // polled through the live status lookup; events seen both ways fire once.
+    const stopListening = listenForJobEvents([client, resolveSdkClient(client)?.projects], onEvent);
+    const poller = createRegisteredProjectPoller(client, onEvent, Date.now());
+    const pollTimer = setInterval(() => {
+      poller.poll().catch((error) => {
+        debugLogAppId(
+          `trigger:poll error appId=${appId} ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+    }, STATUS_POLL_INTERVAL_MS);
+
+    // Keep the listener alive across socket drops while the workflow is active
+    let closing = false;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+    const onDisconnected = () => {
+      if (closing || reconnectTimer) return;
+      reconnectTimer = setTimeout(async () => {
+        reconnectTimer = undefined;
+        if (closing) return;
+        try {
+          await client.connect();
+        } catch (error) {
+          debugLogAppId(
+            `trigger:reconnect error appId=${appId} ${error instanceof Error ? error.message : String(error)}`,
+          );
+          onDisconnected();
+        }
+      }, RECONNECT_DELAY_MS);
+    };
+    if (typeof client.on === 'function') {
+      client.on('disconnected', onDisconnected);
+    }
+
+    const closeFunction = async () => {
+      closing = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      clearInterval(pollTimer);
+      stopListening();
+      await safeDisconnect(client, { label: 'trigger', appId, timeoutMs: 5000 });
+    };
+
+    return { closeFunction };
+  }
+}
@@ -0,0 +1,154 @@
+import { getRegisteredProject, listRegisteredProjects } from '../Sogni/projectRegistry';
+import {
+  ProjectJobEvent,
+  fetchProjectStatus,
+  isTerminalProjectState,
+  normalizeJobEvent,
+} from '../Sogni/projectUtils';
+
+const JOB_EVENT_NAMES = ['jobState', 'jobResult', 'job'] as const;
+const DEDUPE_WINDOW = 500;
+// A registered project that keeps failing to load is given up on after this many polls
+const MAX_FAILED_LOOKUPS = 5;
+
+export interface JobEventFilterOptions {
+  events: string[];
+  onlyOwnProjects: boolean;
+  resourceType: string;
+  outcome: string;
+  modelIds: string[];
+}
+
+/**
+ * Decide whether a job event should start the workflow. Socket listeners and the status poller
+ * can report the same job, so each state (and each job's result) passes only once.
+ */
+export function createJobEventFilter(
+  options: JobEventFilterOptions,
+): (event: ProjectJobEvent) => boolean {
+  const seen = new Set<string>();
+  return (event) => {
+    if (!options.events.includes(event.event)) return false;
+
+    const registered = getRegisteredProject(event.projectId);
+    if (options.onlyOwnProjects && !registered) return false;
+    if (options.resourceType !== 'any' && registered?.projectType !== options.resourceType) {
+      return false;
+    }
+
+    const modelId = (event.modelId ?? registered?.modelId ?? '').toLowerCase();
+    if (options.modelIds.length && !options.modelIds.includes(modelId)) return false;
+
+    if (event.event === 'jobResult' && options.outcome !== 'any') {
+      if ((options.outcome === 'success') !== (event.success === true)) return false;
+    }
+
+    const key =
+      event.event === 'jobResult'
+        ? `jobResult:${event.projectId}:${event.jobId ?? ''}`
+        : `jobState:${event.projectId}:${event.jobId ?? ''}:${event.state}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    if (seen.size > DEDUPE_WINDOW) seen.delete(seen.values().next().value as string);
+    return true;
+  };
+}
+
+/**
+ * Forward the job events of each emitter (the wrapper and the SDK's projects API) to `onEvent`.
+ * Returns a function that removes the listeners again.
+ */
+export function listenForJobEvents(
+  emitters: any[],
+  onEvent: (event: ProjectJobEvent) => void,
+): () => void {
+  const handlers: Array<{ emitter: any; name: string; handler: (payload: any) => void }> = [];
+  for (const emitter of emitters) {
+    if (!emitter || typeof emitter.on !== 'function') continue;
+    for (const name of JOB_EVENT_NAMES) {
+      const handler = (payload: any) => {
+        const event = normalizeJobEvent(name, payload);
+        if (event) onEvent(event);
+      };
+      emitter.on(name, handler);
+      handlers.push({ emitter, name, handler });
+    }
+  }
+
+  return () => {
+    for (const { emitter, name, handler } of handlers) {
+      const off = typeof emitter.off === 'function' ? emitter.off : emitter.removeListener;
+      if (typeof off === 'function') off.call(emitter, name, handler);
+    }
+  };
+}
+
+/**
+ * Poll the live status of projects registered since `since` and report job changes as events.
+ * Unlike socket events, which Sogni may only deliver to the connection that submitted a project,
+ * the status lookup answers for any of the account's projects. Finished projects are dropped.
+ */
+export function createRegisteredProjectPoller(
+  client: any,
+  onEvent: (event: ProjectJobEvent) => void,
+  since: number,
+): { poll: () => Promise<void> } {
+  const jobStates = new Map<string, Map<string, string>>();
+  const failedLookups = new Map<string, number>();
+  const finished = new Set<string>();
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      for (const project of listRegisteredProjects()) {
+        if (project.registeredAt < since || finished.has(project.projectId)) continue;
+
+        let status;
+        try {
+          status = await fetchProjectStatus(client, project.projectId, project.projectType);
+          failedLookups.delete(project.projectId);
+        } catch {
+          const failures = (failedLookups.get(project.projectId) ?? 0) + 1;
+          failedLookups.set(project.projectId, failures);
+          if (failures >= MAX_FAILED_LOOKUPS) finished.add(project.projectId);
+          continue;
+        }
+
+        const known = jobStates.get(project.projectId) ?? new Map<string, string>();
+        jobStates.set(project.projectId, known);
+        for (const job of status.jobs) {
+          const jobId = job.id ?? '';
+          if (known.get(jobId) === job.status) continue;
+          known.set(jobId, job.status);
+
+          const isResult = isTerminalProjectState(job.status);
+          onEvent({
+            event: isResult ? 'jobResult' : 'jobState',
+            projectId: project.projectId,
+            jobId: job.id,
+            state: job.status,
+            rawState: job.rawStatus,
+            success: isResult ? job.status === 'completed' : undefined,
+            resultUrl: job.resultUrl,
+            modelId: project.modelId,
+            error: job.error,
+          });
+        }
+
+        if (isTerminalProjectState(status.status)) {
+          finished.add(project.projectId);
+          jobStates.delete(project.projectId);
+        }
+      }
+      for (const projectId of finished) {
+        if (!getRegisteredProject(projectId)) finished.delete(projectId);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  return { poll };
+}
@@ -0,0 +1,542 @@
+import {
+  IDataObject,
+  INodeType,
+  INodeTypeDescription,
+  ISupplyDataFunctions,
+  SupplyData,
+} from 'n8n-workflow';
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+import { SogniClientWrapper } from '@sogni-ai/sogni-intelligence-client';
+import {
+  debugLogAppId,
+  generateUniqueAppId,
+  normalizeAppId,
+  safeDisconnect,
+} from '../Sogni/clientUtils';
+import { SubmissionLock } from '../Sogni/concurrencyUtils';
+import { estimateImageCost, extractEstimatedTokens } from '../Sogni/costUtils';
+import { downloadBuffer, publicHttpTransport } from '../Sogni/downloadUtils';
+import {
+  ProjectType,
+  cancelProject,
+  extractProjectId,
+  isTimeoutError,
+  trackProjectIds,
+} from '../Sogni/projectUtils';
+import { registerProject } from '../Sogni/projectRegistry';
+
+type ToolOperation = 'image.generate' | 'image.edit' | 'video.generate';
+
+const TOOL_OPERATIONS: ToolOperation[] = ['image.generate', 'image.edit', 'video.generate'];
+
+// Limits for source images fetched from URLs the agent supplies
+const SOURCE_IMAGE_MAX_BYTES = 20 * 1024 * 1024;
+const SOURCE_IMAGE_TIMEOUT_MS = 30_000;
+
+/**
+ * Fetch a source image from an agent-supplied URL: http(s) to public hosts only, with a size cap
+ * and timeout so a bad URL cannot reach internal services or exhaust memory.
+ */
+async function downloadSourceImage(url: string): Promise<Buffer> {
+  try {
+    const download = await downloadBuffer(url, {
+      maxBytes: SOURCE_IMAGE_MAX_BYTES,
+      timeoutMs: SOURCE_IMAGE_TIMEOUT_MS,
+      retries: 1,
+      transport: publicHttpTransport(),
+    });
+    return download.data;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to download source image ${url}: ${reason}`);
+  }
+}
+
+// How long a call may hold the client's claim lock while waiting for its project ID
+const PROJECT_ID_CLAIM_TIMEOUT_MS = 10_000;
+
+/**
+ * A call that timed out or was stopped. `canceled` is true only when every project it started
+ * was confirmed cancelled, so the call cannot be billed any further.
+ */
+class ToolProjectStoppedError extends Error {
+  constructor(
+    message: string,
+    readonly canceled: boolean,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Run a blocking create*Project call so that a stopped execution or a timed-out call cancels
+ * the project on the Supernet instead of leaving it rendering (and billing). Calls the agent
+ * makes in parallel take turns claiming project IDs, so each one only cancels its own.
+ */
+async function runCancellableProject<T>(
+  client: SogniClientWrapper,
+  coordination: { lock: SubmissionLock; claimed: Set<string> },
+  signal: AbortSignal | undefined,
+  project: { projectType: ProjectType; modelId: string },
+  create: () => Promise<T>,
+): Promise<T> {
+  const releaseClaim = await coordination.lock.acquire(PROJECT_ID_CLAIM_TIMEOUT_MS);
+  const tracker = trackProjectIds(
+    client,
+    (projectId) => {
+      registerProject(projectId, project);
+      releaseClaim();
+    },
+    { claimed: coordination.claimed, maxProjects: 1 },
+  );
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new Error('Execution was aborted'));
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const created = create().then(
+    (result) => {
+      const projectId = extractProjectId(result);
+      if (projectId) registerProject(projectId, project);
+      releaseClaim();
+      return result;
+    },
+    (error) => {
+      releaseClaim();
+      throw error;
+    },
+  );
+
+  try {
+    return await Promise.race([created, aborted]);
+  } catch (error) {
+    const wasAborted = signal?.aborted === true;
+    if (!wasAborted && !isTimeoutError(error)) throw error;
+
+    const cancellations = await Promise.all(
+      Array.from(tracker.projectIds).map((projectId) => cancelProject(client, projectId)),
+    );
+    const canceled = cancellations.length > 0 && cancellations.every((c) => c.canceled);
+    const reason = wasAborted
+      ? 'Execution was stopped while the project was rendering'
+      : error instanceof Error
+      ? error.message
+      : String(error);
+    throw new ToolProjectStoppedError(
+      `${reason}. ${canceled ? 'The project was cancelled' : 'The project could not be cancelled'}`,
+      canceled,
+    );
+  } finally {
+    releaseClaim();
+    tracker.dispose();
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export class ToolSogni implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Sogni AI Tool',
+    name: 'toolSogni',
+    icon: 'file:sogni.svg',
+    group: ['transform'],
+    version: 1,
+    description: 'Let AI Agents generate images and videos with Sogni AI',
+    defaults: {
+      name: 'Sogni AI Tool',
+    },
+    codex: {
+      categories: ['AI'],
+      subcategories: {
+        AI: ['Tools'],
+        Tools: ['Other Tools'],
+      },
+    },
+    inputs: [],
+    outputs: ['ai_tool'],
+    outputNames: ['Tool'],
+    credentials: [
+      {
+        name: 'sogniApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Tool Description',
+        name: 'toolDescription',
+        type: 'string',
+        default:
+          'Generate images from a text prompt, edit an existing image given its URL, or create a short video clip. Returns media URLs and a short summary.',
+        typeOptions: { rows: 3 },
+        description: 'Explains to the agent when and how to use this tool',
+      },
+      {
+        displayName: 'Allowed Operations',
+        name: 'allowedOperations',
+        type: 'multiOptions',
+        required: true,
+        options: [
+          { name: 'Image Generate', value: 'image.generate' },
+          { name: 'Image Edit', value: 'image.edit' },
+          { name: 'Video Generate', value: 'video.generate' },
+        ],
+        default: ['image.generate'],
+        description: 'Which Sogni operations the agent may call',
+      },
+      {
+        displayName: 'Image Model',
+        name: 'imageModelId',
+        type: 'string',
+        default: 'flux1-schnell-fp8',
+        description: 'Model ID used for image.generate',
+      },
+      {
+        displayName: 'Image Edit Model',
+        name: 'imageEditModelId',
+        type: 'string',
+        default: 'qwen_image_edit_2511_fp8_lightning',
+        description: 'Qwen Image Edit model ID used for image.edit',
+      },
+      {
+        displayName: 'Video Model',
+        name: 'videoModelId',
+        type: 'string',
+        default: 'wan_v2.2-14b-fp8_t2v_lightx2v',
+        description: 'Model ID used for video.generate',
+      },
+      {
+        displayName: 'Max Cost per Call (Tokens)',
+        name: 'maxCostPerCall',
+        type: 'number',
+        default: 50,
+        description:
+          'Refuse any call whose estimated cost exceeds this many tokens. Set to 0 to disable the per-call limit.',
+        typeOptions: { minValue: 0, numberPrecision: 2 },
+      },
+      {
+        displayName: 'Max Total Cost (Tokens)',
+        name: 'maxTotalCost',
+        type: 'number',
+        default: 200,
+        description:
+          'Refuse calls once the estimated spend of this agent run would exceed this many tokens. Set to 0 to disable.',
+        typeOptions: { minValue: 0, numberPrecision: 2 },
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Image Steps',
+            name: 'imageSteps',
+            type: 'number',
+            default: 4,
+            description: 'Inference steps for image.generate',
+            typeOptions: { minValue: 1, maxValue: 100 },
+          },
+          {
+            displayName: 'Image Guidance',
+            name: 'imageGuidance',
+            type: 'number',
+            default: 3.5,
+            description: 'Guidance for image.generate',
+            typeOptions: { minValue: 0, maxValue: 30, numberPrecision: 1 },
+          },
+          {
+            displayName: 'Max Media per Call',
+            name: 'maxMediaPerCall',
+            type: 'number',
+            default: 2,
+            description: 'Upper bound for the number of images/videos the agent can request at once',
+            typeOptions: { minValue: 1, maxValue: 4 },
+          },
+          {
+            displayName: 'Network',
+            name: 'network',
+            type: 'options',
+            options: [
+              { name: 'Fast', value: 'fast' },
+              { name: 'Relaxed', value: 'relaxed' },
+            ],
+            default: 'fast',
+            description: 'Network type used for all tool calls',
+          },
+          {
+            displayName: 'Token Type',
+            name: 'tokenType',
+            type: 'options',
+            options: [
+              { name: 'Spark', value: 'spark' },
+              { name: 'SOGNI', value: 'sogni' },
+            ],
+            default: 'spark',
+            description: 'Token type used for all tool calls',
+          },
+          {
+            displayName: 'Video Steps',
+            name: 'videoSteps',
+            type: 'number',
+            default: 4,
+            description: 'Inference steps for video.generate',
+            typeOptions: { minValue: 1, maxValue: 100 },
+          },
+        ],
+      },
+    ],
+  };
+
+  async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+    const credentials = await this.getCredentials('sogniApi');
+    const toolDescription = this.getNodeParameter('toolDescription', itemIndex) as string;
+    const allowed = this.getNodeParameter('allowedOperations', itemIndex, []) as ToolOperation[];
+    const imageModelId = this.getNodeParameter('imageModelId', itemIndex) as string;
+    const imageEditModelId = this.getNodeParameter('imageEditModelId', itemIndex) as string;
+    const videoModelId = this.getNodeParameter('videoModelId', itemIndex) as string;
+    const maxCostPerCall = Number(this.getNodeParameter('maxCostPerCall', itemIndex, 0)) || 0;
+    const maxTotalCost = Number(this.getNodeParameter('maxTotalCost', itemIndex, 0)) || 0;
+    const options = (this.getNodeParameter('options', itemIndex, {}) as IDataObject) || {};
+
+    const network = (options.network as 'fast' | 'relaxed') ?? 'fast';
+    const tokenType = (options.tokenType as 'spark' | 'sogni') ?? 'spark';
+    const maxMediaPerCall = Number(options.maxMediaPerCall) || 2;
+    const imageSteps = Number(options.imageSteps) || 4;
+    const imageGuidance = typeof options.imageGuidance === 'number' ? options.imageGuidance : 3.5;
+    const videoSteps = Number(options.videoSteps) || 4;
+
+    const operations = TOOL_OPERATIONS.filter((op) => allowed.includes(op));
+    const operationSchema = z.enum(
+      (operations.length ? operations : ['image.generate']) as [ToolOperation, ...ToolOperation[]],
+    );
+
+    const schema = z.object({
+      operation: operationSchema.describe('What to create'),
+      prompt: z.string().min(1).describe('Description of the image/video, or of the edit to apply'),
+      negativePrompt: z.string().optional().describe('What to avoid in the result'),
+      numberOfMedia: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxMediaPerCall)
+        .optional()
+        .describe('How many images/videos to create (default 1)'),
+      width: z.number().int().min(256).max(2048).optional().describe('Width in pixels'),
+      height: z.number().int().min(256).max(2048).optional().describe('Height in pixels'),
+      durationSeconds: z
+        .number()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe('Video length in seconds (video.generate only, default 5)'),
+      imageUrls: z
+        .array(z.string().url())
+        .max(3)
+        .optional()
+        .describe('URLs of 1-3 source images (required for image.edit)'),
+    });
+
+    // Same appId strategy as the main node's execute()
+    const userProvidedAppId = normalizeAppId(credentials.appId as string | undefined);
+    const appId = userProvidedAppId ?? generateUniqueAppId('n8n-sogni-tool');
+    debugLogAppId(`supplyData:tool node="${this.getNode().name}" appId=${appId}`);
+
+    const client = new SogniClientWrapper({
+      username: credentials.username as string,
+      password: credentials.password as string,
+      appId,
+      autoConnect: true,
+      debug: false,
+    });
+
+    // Estimates of calls still running count against Max Total Cost, so parallel calls from the
+    // agent cannot all pass the check before any of them has finished
+    let spentTokens = 0;
+    let reservedTokens = 0;
+    const coordination = { lock: new SubmissionLock(), claimed: new Set<string>() };
+
+    const runTool = async (input: z.infer<typeof schema>): Promise<Record<string, unknown>> => {
+      if (!allowed.includes(input.operation)) {
+        throw new Error(`Operation "${input.operation}" is not enabled for this tool`);
+      }
+
+      const numberOfMedia = Math.min(input.numberOfMedia ?? 1, maxMediaPerCall);
+      const isVideo = input.operation === 'video.generate';
+      const modelId =
+        input.operation === 'image.generate'
+          ? imageModelId
+          : input.operation === 'image.edit'
+          ? imageEditModelId
+          : videoModelId;
+      const width = input.width ?? (isVideo ? 512 : 1024);
+      const height = input.height ?? (isVideo ? 512 : 1024);
+      const duration = input.durationSeconds ?? 5;
+      const isLightningEdit = imageEditModelId.toLowerCase().includes('lightning');
+      const steps = isVideo
+        ? videoSteps
+        : input.operation === 'image.edit'
+        ? isLightningEdit
+          ? 4
+          : 20
+        : imageSteps;
+
+      let contextImages: Buffer[] = [];
+      if (input.operation === 'image.edit') {
+        if (!input.imageUrls?.length) {
+          throw new Error('image.edit requires at least one URL in imageUrls');
+        }
+        contextImages = await Promise.all(input.imageUrls.map((url) => downloadSourceImage(url)));
+      }
+
+      // Enforce cost limits before spending anything
+      let estimatedCost: number | undefined;
+      if (maxCostPerCall > 0 || maxTotalCost > 0) {
+        const estimate = isVideo
+          ? await client.estimateVideoCost({
+              modelId,
+              width,
+              height,
+              fps: 16,
+              steps,
+              duration,
+              numberOfMedia,
+              tokenType,
+            })
+          : await estimateImageCost(client, {
+              modelId,
+              network,
+              tokenType,
+              steps,
+              numberOfMedia,
+              sizePreset: 'custom',
+              width,
+              height,
+              contextImages: input.operation === 'image.edit' ? input.imageUrls?.length ?? 0 : undefined,
+            });
+        estimatedCost = extractEstimatedTokens(estimate);
+        if (estimatedCost === undefined) {
+          throw new Error('Could not estimate the cost of this call, refusing because cost limits are set');
+        }
+        if (maxCostPerCall > 0 && estimatedCost > maxCostPerCall) {
+          throw new Error(
+            `Estimated cost ${estimatedCost} ${tokenType} exceeds the per-call limit of ${maxCostPerCall}. Try fewer or smaller outputs.`,
+          );
+        }
+        if (maxTotalCost > 0 && spentTokens + reservedTokens + estimatedCost > maxTotalCost) {
+          throw new Error(
+            `Estimated cost ${estimatedCost} ${tokenType} would exceed the remaining budget of ${
+              maxTotalCost - spentTokens - reservedTokens
+            }. No further generations are allowed in this run.`,
+          );
+        }
+      }
+
+      const common = {
+        modelId,
+        positivePrompt: input.prompt,
+        negativePrompt: input.negativePrompt ?? '',
+        numberOfMedia,
+        network,
+        tokenType,
+        width,
+        height,
+        steps,
+        waitForCompletion: true,
+      };
+
+      const project = { projectType: (isVideo ? 'video' : 'image') as ProjectType, modelId };
+      const signal = this.getExecutionCancelSignal();
+      const create = (): Promise<any> => {
+        if (input.operation === 'image.generate') {
+          return client.createImageProject({
+            ...common,
+            guidance: imageGuidance,
+            sizePreset: 'custom',
+            outputFormat: 'png',
+            timeout: network === 'fast' ? 60_000 : 600_000,
+          });
+        }
+        if (input.operation === 'image.edit') {
+          return client.createImageEditProject({
+            ...common,
+            guidance: isLightningEdit ? 1.0 : 4.0,
+            sizePreset: 'custom',
+            outputFormat: 'png',
+            contextImages,
+            timeout: network === 'fast' ? 60_000 : 600_000,
+          });
+        }
+        return client.createVideoProject({
+          ...common,
+          duration,
+          fps: 16,
+          outputFormat: 'mp4',
+          timeout: network === 'fast' ? 120_000 : 1200_000,
+        });
+      };
+
+      let result: any;
+      // Hold the estimate against the budget until the project settles. A failed call may still
+      // have rendered (and been billed), so its estimate only comes back when the project was
+      // confirmed cancelled.
+      const reserved = estimatedCost ?? 0;
+      reservedTokens += reserved;
+      try {
+        result = await runCancellableProject(client, coordination, signal, project, create);
+        spentTokens += reserved;
+      } catch (error) {
+        if (!(error instanceof ToolProjectStoppedError && error.canceled)) spentTokens += reserved;
+        throw error;
+      } finally {
+        reservedTokens -= reserved;
+      }
+
+      const projectId = extractProjectId(result);
+
+      const urls: string[] = (isVideo ? result?.videoUrls : result?.imageUrls) || [];
+      const noun = isVideo ? 'video' : 'image';
+      const verb = input.operation === 'image.edit' ? 'Edited' : 'Generated';
+      const costText = estimatedCost !== undefined ? ` (estimated cost ${estimatedCost} ${tokenType})` : '';
+
+      return {
+        summary: `${verb} ${urls.length} ${noun}${urls.length === 1 ? '' : 's'} with ${modelId}${costText}. URLs expire after 24 hours.`,
+        operation: input.operation,
+        projectId,
+        modelId,
+        urls,
+        estimatedCost,
+        spentThisRun: spentTokens,
+      };
+    };
+
+    const tool = new DynamicStructuredTool({
+      name: 'sogni_media',
+      description: toolDescription,
+      schema,
+      func: async (input) => {
+        const { index } = this.addInputData('ai_tool', [[{ json: input }]]);
+        let response: Record<string, unknown>;
+        try {
+          response = await runTool(input);
+        } catch (error) {
+          response = { error: error instanceof Error ? error.message : String(error) };
+        }
+        this.addOutputData('ai_tool', index, [[{ json: response as IDataObject }]]);
+        return JSON.stringify(response);
+      },
+    });
+
+    return {
+      response: tool,
+      closeFunction: async () => {
+        await safeDisconnect(client, { label: 'supplyData:tool', appId, timeoutMs: 5000 });
+      },
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import { EventEmitter } from 'events';
+import {
+  SubmissionLock,
+  mapWithConcurrency,
+  normalizeConcurrency,
+} from '../nodes/Sogni/concurrencyUtils';
+import { getConnectionGeneration, reconnectClientOnce } from '../nodes/Sogni/clientUtils';
+import { trackProjectIds } from '../nodes/Sogni/projectUtils';
+
+console.log('🧪 Starting concurrency utility tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runTests() {
+  await test('Should keep input order and respect the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await delay(ms);
+      inFlight--;
+      return index;
+    });
+    if (results.join(',') !== '0,1,2,3,4') throw new Error(`Unexpected order: ${results}`);
+    if (peak !== 2) throw new Error(`Expected 2 jobs in flight, saw ${peak}`);
+  });
+
+  await test('Should stop scheduling after an error and let running calls settle', async () => {
+    const started: number[] = [];
+    let settled = 0;
+    try {
+      await mapWithConcurrency([0, 1, 2, 3, 4], 2, async (value) => {
+        started.push(value);
+        if (value === 0) throw new Error('boom');
+        await delay(10);
+        settled++;
+        return value;
+      });
+      throw new Error('Expected an error');
+    } catch (error) {
+      if ((error as Error).message !== 'boom') throw error;
+    }
+    if (started.length !== 2) throw new Error(`Started ${started.length} items after the failure`);
+    if (settled !== 1) throw new Error('The call already in flight should settle before rejecting');
+  });
+
+  await test('Should clamp Max Concurrent Jobs', () => {
+    const cases: Array<[unknown, number]> = [[undefined, 1], [0, 1], ['4', 4], [2.7, 2], [500, 20]];
+    for (const [raw, expected] of cases) {
+      if (normalizeConcurrency(raw) !== expected) throw new Error(`${raw} should become ${expected}`);
+    }
+  });
+
+  await test('Should hand the submission lock over in order', async () => {
+    const lock = new SubmissionLock();
+    const order: string[] = [];
+    const releaseA = await lock.acquire(1000);
+    const b = lock.acquire(1000).then((release) => {
+      order.push('b');
+      release();
+    });
+    order.push('a');
+    releaseA();
+    releaseA(); // idempotent
+    await b;
+    if (order.join(',') !== 'a,b') throw new Error(`Unexpected order: ${order}`);
+
+    const stuck = await lock.acquire(20);
+    const afterTimeout = await lock.acquire(1000);
+    afterTimeout();
+    stuck();
+  });
+
+  await test('Should attribute each announced project ID to one tracker', () => {
+    const client = new EventEmitter();
+    const claimed = new Set<string>();
+    const first = trackProjectIds(client, undefined, { claimed, maxProjects: 1 });
+    client.emit('project', { projectId: 'P1' });
+
+    const second = trackProjectIds(client, undefined, { claimed, maxProjects: 1 });
+    client.emit('jobProgress', { projectId: 'P1' });
+    client.emit('project', { projectId: 'P2' });
+
+    if ([...first.projectIds].join(',') !== 'P1') throw new Error('First tracker picked up P2');
+    if ([...second.projectIds].join(',') !== 'P2') throw new Error('Second tracker picked up P1');
+
+    first.dispose();
+    if (claimed.has('P1') || !claimed.has('P2')) throw new Error('Dispose should release only its IDs');
+    second.dispose();
+  });
+
+  await test('Should reconnect a shared client once per dropped connection', async () => {
+    let connects = 0;
+    let connected = false;
+    const client = {
+      connect: async () => {
+        connects++;
+        await delay(10);
+        connected = true;
+      },
+      disconnect: async () => {
+        connected = false;
+      },
+      isConnected: () => connected,
+    };
+    const context = { label: 'test' };
+
+    // Three items fail on the same connection at once
+    const failedOn = getConnectionGeneration(client);
+    await Promise.all([
+      reconnectClientOnce(client, context, failedOn),
+      reconnectClientOnce(client, context, failedOn),
+      reconnectClientOnce(client, context, failedOn),
+    ]);
+    if (connects !== 1) throw new Error(`Expected one reconnect, got ${connects}`);
+    const reconnectsSoFar = (): number => connects;
+
+    // A late item that failed on the old connection must not reconnect the new one
+    connected = false;
+    await reconnectClientOnce(client, context, failedOn);
+    if (reconnectsSoFar() !== 1) throw new Error('Expected no reconnect for a replaced connection');
+
+    await reconnectClientOnce(client, context, getConnectionGeneration(client));
+    if (reconnectsSoFar() !== 2) throw new Error('Expected a new drop to reconnect again');
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,200 @@
+import * as zlib from 'zlib';
+
+import {
+  METADATA_KEYWORD,
+  buildGenerationMetadata,
+  embedImageMetadata,
+  metadataSourceUrl,
+  readImageMetadata,
+  rebuildGenerateParameters,
+} from '../nodes/Sogni/imageMetadata';
+
+console.log('🧪 Starting image metadata tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64',
+);
+// SOI, APP0 (JFIF), then a fake scan
+const JPEG = Buffer.concat([
+  Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]),
+  Buffer.from('JFIF\0', 'latin1'),
+  Buffer.alloc(9),
+  Buffer.from([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]),
+]);
+
+function pngChunks(buffer: Buffer): Array<{ type: string; data: Buffer; crcOk: boolean }> {
+  const chunks = [];
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    const crc = buffer.readUInt32BE(offset + 8 + length);
+    const crcOk = zlib.crc32(buffer.subarray(offset + 4, offset + 8 + length)) === crc;
+    chunks.push({ type, data, crcOk });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+const metadata = { prompt: 'A café at dusk', modelId: 'flux1-schnell-fp8', seed: 42, steps: 4 };
+
+async function runTests() {
+  await test('Should embed metadata into a PNG as valid text chunks', () => {
+    const { data, embedded } = embedImageMetadata(PNG, metadata);
+    if (!embedded) throw new Error('PNG not embedded');
+    const chunks = pngChunks(data);
+    if (chunks[0].type !== 'IHDR' || chunks[chunks.length - 1].type !== 'IEND') {
+      throw new Error(`Chunk order broken: ${chunks.map((chunk) => chunk.type)}`);
+    }
+    if (chunks.some((chunk) => !chunk.crcOk)) throw new Error('Bad chunk CRC');
+    const itxt = chunks.find((chunk) =>
+      chunk.data.toString('latin1').startsWith(METADATA_KEYWORD),
+    );
+    if (!itxt || itxt.type !== 'iTXt') throw new Error('Metadata chunk missing');
+    const json = JSON.parse(itxt.data.subarray(METADATA_KEYWORD.length + 5).toString('utf8'));
+    if (json.seed !== 42 || json.prompt !== metadata.prompt) throw new Error('Metadata mangled');
+  });
+
+  await test('Should embed metadata into a JPEG as XMP after APP0', () => {
+    const { data, embedded } = embedImageMetadata(JPEG, metadata);
+    if (!embedded) throw new Error('JPEG not embedded');
+    const app1 = 2 + 2 + JPEG.readUInt16BE(4);
+    if (data[app1] !== 0xff || data[app1 + 1] !== 0xe1) throw new Error('APP1 not after APP0');
+    const segmentEnd = app1 + 2 + data.readUInt16BE(app1 + 2);
+    const segment = data.subarray(app1 + 4, segmentEnd).toString('utf8');
+    if (!segment.startsWith('http://ns.adobe.com/xap/1.0/\0') || !segment.includes('café')) {
+      throw new Error('XMP packet missing');
+    }
+    if (!data.subarray(data.length - 6).equals(JPEG.subarray(JPEG.length - 6))) {
+      throw new Error('Image data changed');
+    }
+  });
+
+  await test('Should leave other formats untouched', () => {
+    const webp = Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1');
+    const result = embedImageMetadata(webp, metadata);
+    if (result.embedded || result.data !== webp) throw new Error('WebP should not be modified');
+  });
+
+  await test('Should record generation parameters without binaries', () => {
+    const recorded = buildGenerationMetadata('image.edit', {
+      modelId: 'qwen',
+      positivePrompt: 'Make it snow',
+      negativePrompt: '',
+      steps: 4,
+      seed: undefined,
+      contextImages: [Buffer.alloc(4), Buffer.alloc(4)],
+      timeout: 60000,
+    });
+    if (recorded.prompt !== 'Make it snow' || recorded.contextImages !== 2) {
+      throw new Error(`Unexpected metadata: ${JSON.stringify(recorded)}`);
+    }
+    if ('negativePrompt' in recorded || 'seed' in recorded || 'timeout' in recorded) {
+      throw new Error('Empty or transport fields should be dropped');
+    }
+  });
+
+  await test('Should record source URLs without their signature', () => {
+    const signed = 'https://cdn.example/render/ABC_0.png?X-Amz-Signature=abc&X-Amz-Expires=86400#x';
+    const recorded = metadataSourceUrl(signed);
+    if (recorded !== 'https://cdn.example/render/ABC_0.png') {
+      throw new Error(`Unexpected source URL: ${recorded}`);
+    }
+    if (metadataSourceUrl('not a url?token=1') !== 'not a url') throw new Error('Query kept');
+  });
+
+  await test('Should read back metadata embedded in a PNG or JPEG', () => {
+    const quoted = { ...metadata, negativePrompt: 'no "text" & <logos>' };
+    for (const source of [PNG, JPEG]) {
+      const read = readImageMetadata(embedImageMetadata(source, quoted).data);
+      const negative = read.metadata?.negativePrompt;
+      if (!read.found || read.metadata?.seed !== 42 || negative !== quoted.negativePrompt) {
+        throw new Error(`Unexpected ${read.format} read: ${JSON.stringify(read)}`);
+      }
+      if (read.text.Description !== metadata.prompt) throw new Error('Description not read');
+    }
+  });
+
+  await test('Should read compressed iTXt chunks and report files without metadata', () => {
+    const text = Buffer.concat([
+      Buffer.from(`${METADATA_KEYWORD}\0\x01\0\0\0`, 'latin1'),
+      zlib.deflateSync(Buffer.from(JSON.stringify(metadata), 'utf8')),
+    ]);
+    const body = Buffer.concat([Buffer.from('iTXt', 'latin1'), text]);
+    const chunk = Buffer.alloc(12 + text.length);
+    chunk.writeUInt32BE(text.length, 0);
+    body.copy(chunk, 4);
+    chunk.writeUInt32BE(zlib.crc32(body), 8 + text.length);
+    const png = Buffer.concat([PNG.subarray(0, 33), chunk, PNG.subarray(33)]);
+
+    const read = readImageMetadata(png);
+    if (read.source !== 'png:iTXt' || read.metadata?.modelId !== metadata.modelId) {
+      throw new Error(`Compressed chunk not read: ${JSON.stringify(read)}`);
+    }
+    if (readImageMetadata(PNG).found || readImageMetadata(JPEG).found) {
+      throw new Error('Plain files should have no metadata');
+    }
+    if (readImageMetadata(Buffer.from('GIF89a')).format !== 'unknown') {
+      throw new Error('GIF should be unknown');
+    }
+  });
+
+  await test('Should rebuild Image > Generate parameters', () => {
+    const recorded = {
+      ...metadata,
+      operation: 'image.generate',
+      network: 'fast',
+      tokenType: 'spark',
+      outputFormat: 'png',
+      numberOfMedia: 4,
+      controlNet: { name: 'canny', strength: 0.6 },
+    };
+    const params = rebuildGenerateParameters(recorded);
+    const fields = params.additionalFields as any;
+    if (params.positivePrompt !== metadata.prompt || params.network !== 'fast') {
+      throw new Error(`Unexpected parameters: ${JSON.stringify(params)}`);
+    }
+    if (fields.generationSettings.seed !== 42 || fields.generationSettings.numberOfMedia !== 1) {
+      throw new Error(`Unexpected settings: ${JSON.stringify(fields.generationSettings)}`);
+    }
+    if (fields.advanced.tokenType !== 'spark' || fields.controlNet.controlNetType !== 'canny') {
+      throw new Error(`Unexpected groups: ${JSON.stringify(fields)}`);
+    }
+    const variation = rebuildGenerateParameters(recorded, { keepSeed: false }) as any;
+    if ('seed' in variation.additionalFields.generationSettings) throw new Error('Seed kept');
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
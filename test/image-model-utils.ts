@@ -0,0 +1,72 @@
+import { imageModelSupportsStartingImage, isImageEditModelId } from '../nodes/Sogni/imageModelUtils';
+
+console.log('🧪 Starting image model utility tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+test('Should recognize Qwen Image Edit model IDs', () => {
+  if (!isImageEditModelId('qwen_image_edit_2511_fp8_lightning')) {
+    throw new Error('Expected qwen_image_edit model to be recognized');
+  }
+  if (isImageEditModelId('qwen_image_fp8') || isImageEditModelId(undefined)) {
+    throw new Error('Plain Qwen Image should not be an edit model');
+  }
+});
+
+test('Should prefer capability flags reported by the network', () => {
+  if (imageModelSupportsStartingImage('flux1-dev', { id: 'flux1-dev', img2img: false }) !== false) {
+    throw new Error('Expected img2img: false to win');
+  }
+  const listed = { id: 'custom', capabilities: ['txt2img', 'Image-To-Image'] };
+  if (imageModelSupportsStartingImage('custom', listed) !== true) {
+    throw new Error('Expected capability list to be read');
+  }
+  const nested = { id: 'custom', capabilities: { startingImage: false } };
+  if (imageModelSupportsStartingImage('custom', nested) !== false) {
+    throw new Error('Expected nested capability flag to be read');
+  }
+});
+
+test('Should reject edit and video models without capability info', () => {
+  const edit = 'qwen_image_edit_2511_fp8';
+  if (imageModelSupportsStartingImage(edit, { id: edit }) !== false) {
+    throw new Error('Edit models take context images, not a starting image');
+  }
+  if (imageModelSupportsStartingImage('wan_v2.2-14b-fp8_i2v') !== false) {
+    throw new Error('Video models should be rejected');
+  }
+});
+
+test('Should accept catalog image models and leave unknown models to the API', () => {
+  const model = { id: 'flux1-schnell-fp8', name: 'Flux.1 Schnell' };
+  if (imageModelSupportsStartingImage('flux1-schnell-fp8', model) !== true) {
+    throw new Error('Expected catalog image model to be supported');
+  }
+  if (imageModelSupportsStartingImage('not-in-catalog') !== undefined) {
+    throw new Error('Expected undefined for a model the catalog does not list');
+  }
+});
+
+// Summary
+console.log('\n' + '='.repeat(50));
+console.log(`✅ Tests passed: ${testsPassed}`);
+console.log(`❌ Tests failed: ${testsFailed}`);
+console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+console.log('='.repeat(50));
+
+if (testsFailed > 0) {
+  process.exit(1);
+}
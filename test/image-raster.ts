@@ -0,0 +1,168 @@
+import {
+  blankMaskedArea,
+  compositeMasked,
+  createPaddingMask,
+  createRectangleMask,
+  decodePng,
+  encodePng,
+  padImage,
+  readImageDimensions,
+} from '../nodes/Sogni/imageRaster';
+
+console.log('🧪 Starting image raster tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function solid(width: number, height: number, rgba: number[]) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+function pixel(image: { width: number; data: Buffer }, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [...image.data.subarray(offset, offset + 4)];
+}
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64',
+);
+
+test('Should read dimensions from PNG, JPEG, GIF and WebP headers', () => {
+  const png = encodePng(solid(3, 2, [0, 0, 0, 255]));
+  const jpeg = Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]),
+    Buffer.from([0xff, 0xc2, 0x00, 0x0b, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x01, 0x01]),
+  ]);
+  const gif = Buffer.from([...Buffer.from('GIF89a'), 0x20, 0x00, 0x10, 0x00]);
+  const webp = Buffer.concat([
+    Buffer.from('RIFF\0\0\0\0WEBPVP8L\0\0\0\0\x2f', 'latin1'),
+    Buffer.from([0x3f, 0xc0, 0x0f, 0x00]),
+  ]);
+  const sizes = [png, jpeg, gif, webp].map((buffer) => readImageDimensions(buffer));
+  const expected = ['png 3x2', 'jpeg 640x480', 'gif 32x16', 'webp 64x64'];
+  const actual = sizes.map((size) => size && `${size.format} ${size.width}x${size.height}`);
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected dimensions: ${JSON.stringify(actual)}`);
+  }
+  if (readImageDimensions(Buffer.from('not an image')) !== undefined) {
+    throw new Error('Unknown content should have no dimensions');
+  }
+});
+
+test('Should round-trip RGBA pixels through encode and decode', () => {
+  const image = solid(4, 3, [10, 20, 30, 255]);
+  image.data.set([200, 100, 50, 128], 4 * 5);
+  const decoded = decodePng(encodePng(image));
+  if (decoded.width !== 4 || decoded.height !== 3 || !decoded.data.equals(image.data)) {
+    throw new Error('Pixels changed in round trip');
+  }
+  const tiny = decodePng(PNG);
+  if (tiny.width !== 1 || tiny.data.length !== 4) throw new Error('Filtered PNG not decoded');
+});
+
+test('Should reject oversized PNGs before decoding them', () => {
+  const huge = encodePng(solid(2, 2, [0, 0, 0, 255]));
+  // Claim 100000x100000 in IHDR; the pixel data stays tiny
+  huge.writeUInt32BE(100000, 16);
+  huge.writeUInt32BE(100000, 20);
+  try {
+    decodePng(huge);
+    throw new Error('Expected an error');
+  } catch (error: any) {
+    if (!/maximum is 2048/.test(error.message)) throw error;
+  }
+});
+
+test('Should build rectangle and padding masks', () => {
+  const rect = createRectangleMask(4, 4, { x: 1, y: 1, width: 2, height: 2 });
+  if (pixel(rect, 0, 0)[0] !== 0 || pixel(rect, 1, 1)[0] !== 255 || pixel(rect, 3, 3)[0] !== 0) {
+    throw new Error('Rectangle mask wrong');
+  }
+  const padding = { top: 0, right: 2, bottom: 1, left: 1 };
+  const mask = createPaddingMask(2, 2, padding);
+  if (mask.width !== 5 || mask.height !== 3) {
+    throw new Error(`Mask is ${mask.width}x${mask.height}`);
+  }
+  const [border, kept, below] = [pixel(mask, 0, 0), pixel(mask, 1, 0), pixel(mask, 1, 2)];
+  if (border[0] !== 255 || kept[0] !== 0 || below[0] !== 255) {
+    throw new Error('Padding mask wrong');
+  }
+});
+
+test('Should pad images with a neutral gray border', () => {
+  const image = solid(2, 1, [0, 0, 0, 255]);
+  image.data.set([255, 0, 0, 255], 4);
+  const padded = padImage(image, { top: 1, right: 1, bottom: 0, left: 1 });
+  if (padded.width !== 4 || padded.height !== 2) throw new Error('Wrong padded size');
+  if (pixel(padded, 0, 0).join() !== '128,128,128,255' || pixel(padded, 3, 1)[0] !== 128) {
+    throw new Error('Border not gray');
+  }
+  if (pixel(padded, 1, 1)[0] !== 0 || pixel(padded, 2, 1)[0] !== 255) {
+    throw new Error('Source not copied to the padding offset');
+  }
+});
+
+test('Should blank only the masked area, with gray or seeded noise', () => {
+  const image = solid(2, 1, [10, 20, 30, 255]);
+  const mask = solid(2, 1, [0, 0, 0, 255]);
+  mask.data.set([255, 255, 255, 255], 4);
+  const neutral = blankMaskedArea(image, mask, 'neutral');
+  if (pixel(neutral, 0, 0).join() !== '10,20,30,255') throw new Error('Kept pixel changed');
+  if (pixel(neutral, 1, 0).join() !== '128,128,128,255') throw new Error('Masked pixel not gray');
+  const noise = blankMaskedArea(image, mask, 'noise', 7);
+  if (pixel(noise, 0, 0).join() !== '10,20,30,255') throw new Error('Kept pixel changed');
+  if (pixel(noise, 1, 0).join() !== pixel(blankMaskedArea(image, mask, 'noise', 7), 1, 0).join()) {
+    throw new Error('Noise is not repeatable for a seed');
+  }
+  if (image.data[4] !== 10) throw new Error('Source image was modified');
+  try {
+    blankMaskedArea(image, solid(1, 1, [255, 255, 255, 255]), 'neutral');
+    throw new Error('Expected a size error');
+  } catch (error: any) {
+    if (!/expected 2x1/.test(error.message)) throw error;
+  }
+});
+
+test('Should composite through the mask and reject mismatched sizes', () => {
+  const source = solid(2, 1, [0, 0, 0, 255]);
+  const generated = solid(2, 1, [200, 200, 200, 255]);
+  const mask = solid(2, 1, [0, 0, 0, 255]);
+  mask.data.set([255, 255, 255, 255], 4);
+  const merged = compositeMasked(source, generated, mask);
+  if (pixel(merged, 0, 0)[0] !== 0 || pixel(merged, 1, 0)[0] !== 200) {
+    throw new Error(`Unexpected composite: ${[...merged.data]}`);
+  }
+  try {
+    compositeMasked(source, solid(3, 1, [0, 0, 0, 255]), mask);
+    throw new Error('Expected a size error');
+  } catch (error: any) {
+    if (!/expected 2x1/.test(error.message)) throw error;
+  }
+});
+
+// Summary
+console.log('\n' + '='.repeat(50));
+console.log(`✅ Tests passed: ${testsPassed}`);
+console.log(`❌ Tests failed: ${testsFailed}`);
+console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+console.log('='.repeat(50));
+
+if (testsFailed > 0) {
+  process.exit(1);
+}
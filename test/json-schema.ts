@@ -0,0 +1,105 @@
+import {
+  buildValidationFeedback,
+  extractJsonFromText,
+  parseStructuredReply,
+  validateJsonSchema,
+} from '../nodes/Sogni/jsonSchema';
+
+console.log('🧪 Starting JSON schema tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+const articleSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 3 },
+    rating: { type: 'integer', minimum: 1, maximum: 5 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+    mood: { enum: ['happy', 'sad'] },
+  },
+  required: ['title', 'rating'],
+  additionalProperties: false,
+};
+
+test('Should accept a value matching the schema', () => {
+  const errors = validateJsonSchema({ title: 'Hello', rating: 4, tags: ['a'], mood: 'happy' }, articleSchema);
+  if (errors.length) throw new Error(`Unexpected errors: ${errors.join('; ')}`);
+});
+
+test('Should report every violation with its path', () => {
+  const errors = validateJsonSchema(
+    { title: 'Hi', rating: 4.5, tags: ['a', 1], mood: 'angry', extra: true },
+    articleSchema,
+  );
+  const expected = ['$.title', '$.rating', '$.tags[1]', '$.mood', '$.extra'];
+  for (const path of expected) {
+    if (!errors.some((error) => error.startsWith(`${path}:`))) {
+      throw new Error(`Missing error for ${path}: ${errors.join('; ')}`);
+    }
+  }
+
+  const missing = validateJsonSchema({}, articleSchema);
+  if (!missing.includes('$.title: is required') || !missing.includes('$.rating: is required')) {
+    throw new Error(`Required fields not reported: ${missing.join('; ')}`);
+  }
+});
+
+test('Should support type unions and anyOf/oneOf', () => {
+  if (validateJsonSchema(null, { type: ['string', 'null'] }).length) throw new Error('null should be allowed');
+  if (!validateJsonSchema(1, { anyOf: [{ type: 'string' }, { type: 'boolean' }] }).length) {
+    throw new Error('anyOf should reject a number');
+  }
+  if (!validateJsonSchema(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] }).length) {
+    throw new Error('oneOf should reject values matching two branches');
+  }
+});
+
+test('Should extract JSON from fenced or chatty replies', () => {
+  const fenced = extractJsonFromText('Here you go:\n```json\n{"a": 1}\n```');
+  if ((fenced as any).a !== 1) throw new Error('Fenced JSON not extracted');
+
+  const chatty = extractJsonFromText('Sure! {"b": [1, 2]} Hope that helps.');
+  if ((chatty as any).b?.length !== 2) throw new Error('Inline JSON not extracted');
+
+  let threw = false;
+  try {
+    extractJsonFromText('no json here');
+  } catch {
+    threw = true;
+  }
+  if (!threw) throw new Error('Expected an error for text without JSON');
+});
+
+test('Should parse and validate a reply in one step', () => {
+  const ok = parseStructuredReply('{"title":"Great","rating":5}', articleSchema);
+  if (!ok.ok || (ok.data as any).rating !== 5) throw new Error('Valid reply rejected');
+
+  const bad = parseStructuredReply('{"title":"Great"}', articleSchema);
+  if (bad.ok || !bad.errors.length) throw new Error('Invalid reply accepted');
+
+  const feedback = buildValidationFeedback(bad.errors);
+  if (!feedback.includes('$.rating: is required')) throw new Error('Feedback should list the errors');
+});
+
+console.log('\n' + '='.repeat(50));
+console.log(`✅ Tests passed: ${testsPassed}`);
+console.log(`❌ Tests failed: ${testsFailed}`);
+console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+console.log('='.repeat(50));
+
+if (testsFailed > 0) {
+  process.exit(1);
+}
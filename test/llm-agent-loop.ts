@@ -0,0 +1,152 @@
+import { parseAgentToolDefinitions, runAgentLoop, toChatTool } from '../nodes/Sogni/llmAgentLoop';
+
+console.log('🧪 Starting LLM agent loop tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function toolCall(id: string, name: string, args: string) {
+  return { id, type: 'function', function: { name, arguments: args } };
+}
+
+async function runTests() {
+  await test('Should run tools and return the full transcript', async () => {
+    const replies = [
+      { content: '', tool_calls: [toolCall('c1', 'add', '{"a":2,"b":3}')] },
+      { content: 'The answer is 5.', finishReason: 'stop' },
+    ];
+    const seenToolArgs: unknown[] = [];
+
+    const loop = await runAgentLoop({
+      messages: [{ role: 'user', content: 'What is 2 + 3?' }],
+      callModel: async () => replies.shift()!,
+      callTool: async (name, args: any) => {
+        seenToolArgs.push(args);
+        return { sum: args.a + args.b };
+      },
+    });
+
+    if (loop.stopReason !== 'final' || loop.iterations !== 2) {
+      throw new Error(`Unexpected stop: ${loop.stopReason} after ${loop.iterations}`);
+    }
+    if (loop.result.content !== 'The answer is 5.') throw new Error('Final result not returned');
+    const roles = loop.messages.map((message) => message.role).join(',');
+    if (roles !== 'user,assistant,tool,assistant') throw new Error(`Unexpected transcript: ${roles}`);
+    const toolMessage = loop.messages[2];
+    if (toolMessage.tool_call_id !== 'c1' || toolMessage.content !== '{"sum":5}') {
+      throw new Error(`Unexpected tool message: ${JSON.stringify(toolMessage)}`);
+    }
+    if ((seenToolArgs[0] as any)?.a !== 2) throw new Error('Tool arguments were not parsed');
+    if (!loop.toolCalls[0]?.ok) throw new Error('Tool call should be recorded as ok');
+  });
+
+  await test('Should report tool errors back to the model', async () => {
+    const replies = [
+      { content: '', tool_calls: [toolCall('c1', 'missing', '{}'), toolCall('c2', 'add', 'not json')] },
+      { content: 'Sorry, tools failed.' },
+    ];
+    const loop = await runAgentLoop({
+      messages: [{ role: 'user', content: 'hi' }],
+      callModel: async () => replies.shift()!,
+      callTool: async (name) => {
+        throw new Error(`Unknown tool "${name}"`);
+      },
+    });
+
+    const toolMessages = loop.messages.filter((message) => message.role === 'tool');
+    if (toolMessages.length !== 2) throw new Error('Each tool call needs a tool message');
+    if (!toolMessages[0].content.includes('Unknown tool')) throw new Error('Tool error not forwarded');
+    if (!toolMessages[1].content.includes('error')) throw new Error('Argument parse error not forwarded');
+    if (loop.toolCalls.some((call) => call.ok)) throw new Error('Failed calls should be recorded as failed');
+  });
+
+  await test('Should stop at the max-iterations cap', async () => {
+    let calls = 0;
+    const loop = await runAgentLoop({
+      messages: [{ role: 'user', content: 'loop forever' }],
+      maxIterations: 3,
+      callModel: async () => {
+        calls++;
+        return { content: '', tool_calls: [toolCall(`c${calls}`, 'noop', '{}')] };
+      },
+      callTool: async () => 'ok',
+    });
+
+    if (calls !== 3 || loop.iterations !== 3) throw new Error(`Expected 3 model calls, got ${calls}`);
+    if (loop.stopReason !== 'maxIterations') throw new Error(`Unexpected stop reason: ${loop.stopReason}`);
+  });
+
+  await test('Should parse and validate Agent Tools definitions', () => {
+    const tools = parseAgentToolDefinitions({
+      tool: [
+        { name: 'lookup', description: 'Find a user', target: 'workflow', workflowId: '42' },
+        {
+          name: 'weather',
+          target: 'http',
+          url: 'https://example.com/weather',
+          httpMethod: 'GET',
+          parametersJson: '{"type":"object","properties":{"city":{"type":"string"}}}',
+          headersJson: '{"X-Key":"abc"}',
+        },
+      ],
+    });
+
+    if (tools.length !== 2 || tools[0].workflowId !== '42') throw new Error('Workflow tool not parsed');
+    if (tools[1].httpMethod !== 'GET' || tools[1].headers?.['X-Key'] !== 'abc') {
+      throw new Error('HTTP tool not parsed');
+    }
+    const chatTool = toChatTool(tools[1]);
+    if (chatTool.function.name !== 'weather' || !(chatTool.function.parameters as any).properties.city) {
+      throw new Error('Chat tool definition not built');
+    }
+
+    const invalid: unknown[] = [
+      { tool: [{ name: 'bad name', target: 'workflow', workflowId: '1' }] },
+      { tool: [{ name: 'x', target: 'workflow' }] },
+      { tool: [{ name: 'x', target: 'http', url: 'https://a', parametersJson: '{oops' }] },
+      {
+        tool: [
+          { name: 'x', target: 'workflow', workflowId: '1' },
+          { name: 'x', target: 'workflow', workflowId: '2' },
+        ],
+      },
+    ];
+    for (const raw of invalid) {
+      let threw = false;
+      try {
+        parseAgentToolDefinitions(raw);
+      } catch {
+        threw = true;
+      }
+      if (!threw) throw new Error(`Expected an error for ${JSON.stringify(raw)}`);
+    }
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import {
+  InProcessMemoryStore,
+  StaticDataMemoryStore,
+  buildSummaryMessages,
+  splitTurns,
+  stripImageParts,
+  trimHistory,
+  withConversationHistory,
+} from '../nodes/Sogni/llmMemory';
+
+console.log('🧪 Starting LLM memory tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function turn(index: number, extra: any[] = []) {
+  return [
+    { role: 'user', content: `question ${index}` },
+    ...extra,
+    { role: 'assistant', content: `answer ${index}` },
+  ];
+}
+
+async function runTests() {
+  await test('Should group tool messages with the turn that requested them', () => {
+    const toolExchange = [
+      { role: 'assistant', content: '', tool_calls: [{ id: 'c1' }] },
+      { role: 'tool', tool_call_id: 'c1', content: '42' },
+    ];
+    const turns = splitTurns([...turn(1, toolExchange), ...turn(2)]);
+    if (turns.length !== 2 || turns[0].length !== 4) {
+      throw new Error(`Unexpected turns: ${JSON.stringify(turns.map((t) => t.length))}`);
+    }
+  });
+
+  await test('Should trim history by max turns', () => {
+    const history = [...turn(1), ...turn(2), ...turn(3)];
+    const trimmed = trimHistory(history, { maxTurns: 2 });
+    if (trimmed.keptTurns !== 2 || trimmed.droppedTurns !== 1) throw new Error('Wrong turn counts');
+    if (trimmed.kept[0].content !== 'question 2') throw new Error('Oldest turn should be dropped');
+    if (trimmed.dropped[0].content !== 'question 1') throw new Error('Dropped turn not returned');
+  });
+
+  await test('Should trim history by token budget but keep the newest turn', () => {
+    const long = 'x'.repeat(400);
+    const history = [
+      { role: 'user', content: long },
+      { role: 'assistant', content: long },
+      { role: 'user', content: long },
+      { role: 'assistant', content: long },
+    ];
+    const trimmed = trimHistory(history, { maxTokens: 250 });
+    if (trimmed.keptTurns !== 1) throw new Error(`Expected 1 kept turn, got ${trimmed.keptTurns}`);
+
+    const tiny = trimHistory(history, { maxTokens: 1 });
+    if (tiny.keptTurns !== 1) throw new Error('The newest turn must always be kept');
+  });
+
+  await test('Should place history after system messages and before the new turn', () => {
+    const messages = withConversationHistory(
+      [
+        { role: 'system', content: 'Be nice.' },
+        { role: 'user', content: 'new question' },
+      ],
+      { summary: 'They like cats.', messages: turn(1), updatedAt: '' },
+    );
+    const order = messages.map((message) => `${message.role}:${String(message.content).slice(0, 12)}`);
+    const expected = [
+      'system:Be nice.',
+      'system:Summary of t',
+      'user:question 1',
+      'assistant:answer 1',
+      'user:new question',
+    ];
+    if (order.join('|') !== expected.join('|')) throw new Error(`Unexpected order: ${order.join(' | ')}`);
+  });
+
+  await test('Should replace inline images with a text note before storing', () => {
+    const [stored] = stripImageParts([
+      {
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          { type: 'text', text: 'What is this?' },
+        ],
+      },
+    ]);
+    if (stored.content !== 'What is this?\n[1 image(s) attached]') {
+      throw new Error(`Unexpected content: ${stored.content}`);
+    }
+  });
+
+  await test('Should persist sessions in static data and in-process stores', async () => {
+    const staticData: Record<string, any> = {};
+    const staticStore = new StaticDataMemoryStore(staticData);
+    await staticStore.save('chat-1', { messages: turn(1), updatedAt: 'now' });
+    if (!staticData.sogniChatMemory?.['chat-1']) throw new Error('Static data not written');
+    if ((await staticStore.load('chat-1'))?.messages.length !== 2) throw new Error('Static data not loaded');
+
+    const storeA = new InProcessMemoryStore('wf-1:node-a');
+    const storeB = new InProcessMemoryStore('wf-1:node-b');
+    await storeA.save('chat-1', { messages: turn(1), updatedAt: 'now' });
+    if (!(await storeA.load('chat-1'))) throw new Error('In-process session not loaded');
+    if (await storeB.load('chat-1')) throw new Error('Namespaces must not share sessions');
+  });
+
+  await test('Should drop expired and excess static data sessions', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const staticData: Record<string, any> = { sogniChatMemory: {} };
+    const at = (ageMs: number) => new Date(Date.now() - ageMs).toISOString();
+    staticData.sogniChatMemory.stale = { messages: turn(0), updatedAt: at(31 * day) };
+    for (let index = 0; index < 100; index++) {
+      staticData.sogniChatMemory[`chat-${index}`] = { messages: turn(index), updatedAt: at(index * 1000) };
+    }
+
+    const store = new StaticDataMemoryStore(staticData);
+    await store.save('new', { messages: turn(1), updatedAt: at(0) });
+    const keys = Object.keys(staticData.sogniChatMemory);
+    if (keys.length !== 100) throw new Error(`Expected 100 sessions, got ${keys.length}`);
+    if (keys.includes('stale') || keys.includes('chat-99')) throw new Error('Oldest sessions kept');
+    if (!keys.includes('new')) throw new Error('New session dropped');
+  });
+
+  await test('Should let items sharing a session take turns', async () => {
+    const store = new InProcessMemoryStore('wf-1:node-lock');
+    const order: string[] = [];
+    const runItem = async (name: string, delayMs: number) => {
+      const release = await store.lock('chat-1');
+      try {
+        const history = (await store.load('chat-1'))?.messages ?? [];
+        order.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        await store.save('chat-1', { messages: [...history, ...turn(order.length)], updatedAt: 'now' });
+        order.push(`${name}:end`);
+      } finally {
+        release();
+      }
+    };
+
+    await Promise.all([runItem('a', 20), runItem('b', 0)]);
+    if (order.join(',') !== 'a:start,a:end,b:start,b:end') {
+      throw new Error(`Items overlapped: ${order.join(',')}`);
+    }
+    if ((await store.load('chat-1'))?.messages.length !== 4) throw new Error('A turn was lost');
+  });
+
+  await test('Should build a summarization request from dropped turns', () => {
+    const messages = buildSummaryMessages('Earlier stuff.', turn(1));
+    if (messages.length !== 2 || messages[0].role !== 'system') throw new Error('Unexpected request shape');
+    const request = messages[1].content;
+    if (!request.includes('Earlier stuff.') || !request.includes('user: question 1')) {
+      throw new Error('Summary request should include the previous summary and the dropped turns');
+    }
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
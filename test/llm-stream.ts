@@ -0,0 +1,160 @@
+import { consumeChatStream, normalizeStreamChunk, openChatStream } from '../nodes/Sogni/llmStream';
+
+console.log('🧪 Starting LLM streaming tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function* fromChunks(chunks: any[], opts: { failAfter?: number; hangAfter?: number } = {}) {
+  for (let index = 0; index < chunks.length; index++) {
+    if (opts.failAfter === index) throw new Error('socket disconnected');
+    if (opts.hangAfter === index) await delay(500);
+    yield chunks[index];
+  }
+}
+
+async function runTests() {
+  await test('Should normalize flat and OpenAI-style chunks', () => {
+    const flat = normalizeStreamChunk({ content: 'Hi', finishReason: 'stop' });
+    if (flat.content !== 'Hi' || flat.finishReason !== 'stop') throw new Error('Flat chunk not normalized');
+
+    const openai = normalizeStreamChunk({ choices: [{ delta: { content: 'Yo' }, finish_reason: null }] });
+    if (openai.content !== 'Yo' || openai.finishReason !== undefined) {
+      throw new Error('OpenAI-style chunk not normalized');
+    }
+
+    if (normalizeStreamChunk('raw').content !== 'raw') throw new Error('String chunk not normalized');
+  });
+
+  await test('Should concatenate deltas and report timing metrics', async () => {
+    let clock = 1000;
+    const deltas: string[] = [];
+    const chunks = [
+      { content: 'Hello', jobID: 'job-1' },
+      { content: ', ' },
+      { content: 'world', finishReason: 'stop', usage: { completion_tokens: 3 } },
+    ];
+    const stream = (async function* () {
+      for (const chunk of chunks) {
+        clock += 500;
+        yield chunk;
+      }
+    })();
+
+    const result = await consumeChatStream(stream, { now: () => clock, onDelta: (d) => deltas.push(d) });
+
+    if (result.content !== 'Hello, world') throw new Error(`Unexpected content: ${result.content}`);
+    if (result.finishReason !== 'stop') throw new Error(`Unexpected finishReason: ${result.finishReason}`);
+    if (result.jobId !== 'job-1') throw new Error('jobId not captured');
+    if (deltas.length !== 3) throw new Error(`Expected 3 deltas, got ${deltas.length}`);
+    if (result.meta.timeToFirstTokenMs !== 500) {
+      throw new Error(`Expected TTFT 500, got ${result.meta.timeToFirstTokenMs}`);
+    }
+    if (result.meta.completionTokens !== 3) throw new Error('completionTokens should come from usage');
+    // 3 tokens between the first (t=1500) and last (t=2500) delta
+    if (result.meta.tokensPerSecond !== 3) {
+      throw new Error(`Expected 3 tokens/sec, got ${result.meta.tokensPerSecond}`);
+    }
+  });
+
+  await test('Should return partial text as interrupted when the stream breaks', async () => {
+    const stream = fromChunks([{ content: 'Part' }, { content: 'ial' }, {}], { failAfter: 2 });
+    const result = await consumeChatStream(stream);
+    if (result.content !== 'Partial') throw new Error(`Unexpected content: ${result.content}`);
+    if (result.finishReason !== 'interrupted') throw new Error(`Unexpected finishReason: ${result.finishReason}`);
+    if (!result.meta.interruptReason?.includes('socket')) throw new Error('interruptReason not recorded');
+  });
+
+  await test('Should stop on idle timeout and keep the partial text', async () => {
+    const stream = fromChunks([{ content: 'Slow' }, { content: 'never' }], { hangAfter: 1 });
+    const result = await consumeChatStream(stream, { idleTimeoutMs: 50 });
+    if (result.content !== 'Slow') throw new Error(`Unexpected content: ${result.content}`);
+    if (result.finishReason !== 'interrupted') throw new Error(`Unexpected finishReason: ${result.finishReason}`);
+  });
+
+  await test('Should rethrow errors raised before the first chunk', async () => {
+    let threw = false;
+    try {
+      await consumeChatStream(fromChunks([{ content: 'x' }], { failAfter: 0 }));
+    } catch {
+      threw = true;
+    }
+    if (!threw) throw new Error('Expected an error');
+  });
+
+  await test('Should merge streamed tool call argument fragments', async () => {
+    const first = { index: 0, id: 'call_1', function: { name: 'f', arguments: '{"a"' } };
+    const second = { index: 0, function: { arguments: ':1}' } };
+    const result = await consumeChatStream(
+      fromChunks([
+        { choices: [{ delta: { tool_calls: [first] } }] },
+        { choices: [{ delta: { tool_calls: [second] }, finish_reason: 'tool_calls' }] },
+      ]),
+    );
+    const call = result.toolCalls?.[0];
+    if (call?.id !== 'call_1' || call.function.arguments !== '{"a":1}') {
+      throw new Error(`Tool call not merged: ${JSON.stringify(result.toolCalls)}`);
+    }
+    if (result.finishReason !== 'tool_calls') throw new Error('finishReason not captured');
+  });
+
+  await test('Should reject clients without streaming support', async () => {
+    let calls = 0;
+    const createChatCompletion = async () => {
+      calls++;
+      return { content: 'done' };
+    };
+    let threw = false;
+    try {
+      await openChatStream({ createChatCompletion, client: {} }, { model: 'm' });
+    } catch {
+      threw = true;
+    }
+    if (!threw) throw new Error('Expected an error for a non-streaming client');
+    if (calls !== 0) throw new Error('Fell back to a non-streaming completion');
+  });
+
+  await test('Should open the stream through chat.completions.create', async () => {
+    let request: any;
+    const create = async (params: any) => {
+      request = params;
+      return fromChunks([{ content: 'hi', finishReason: 'stop' }]);
+    };
+    const stream = await openChatStream({ client: { chat: { completions: { create } } } }, { model: 'm' });
+    const result = await consumeChatStream(stream);
+    if (request?.stream !== true || request.model !== 'm') throw new Error('stream flag not set');
+    if (result.content !== 'hi') throw new Error(`Unexpected content: ${result.content}`);
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
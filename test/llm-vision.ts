@@ -0,0 +1,104 @@
+import {
+  attachImagesToMessages,
+  chatModelSupportsVision,
+  isVisionChatModel,
+  redactImageDataUrls,
+  toImageDataUrl,
+} from '../nodes/Sogni/llmVision';
+
+console.log('🧪 Starting LLM vision tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+test('Should read vision support from the different capability shapes', () => {
+  const cases: Array<[unknown, boolean | undefined]> = [
+    [{ vision: true }, true],
+    [{ supportsVision: false }, false],
+    [{ capabilities: ['chat', 'vision'] }, true],
+    [{ capabilities: ['chat', 'tools'] }, false],
+    [{ capabilities: { vision: true } }, true],
+    [{ inputModalities: ['text', 'image'] }, true],
+    [{ architecture: { input_modalities: ['text'] } }, false],
+    [{ workers: 3 }, undefined],
+    [undefined, undefined],
+  ];
+
+  for (const [info, expected] of cases) {
+    const actual = chatModelSupportsVision(info);
+    if (actual !== expected) {
+      throw new Error(`Expected ${expected} for ${JSON.stringify(info)}, got ${actual}`);
+    }
+  }
+});
+
+test('Should treat unknown vision support as unsupported unless the model is known', () => {
+  if (isVisionChatModel('qwen3.6-35b-a3b-gguf-iq4xs', { workers: 3 })) {
+    throw new Error('Model without capability info allowed');
+  }
+  if (!isVisionChatModel('qwen3.5-35b-a3b-gguf-q4km', undefined)) {
+    throw new Error('Known vision model refused');
+  }
+  if (isVisionChatModel('qwen3.5-35b-a3b-gguf-q4km', { vision: false })) {
+    throw new Error('Reported capability must win over the known list');
+  }
+  if (!isVisionChatModel('custom-model', { capabilities: ['vision'] })) {
+    throw new Error('Reported vision capability ignored');
+  }
+});
+
+test('Should attach images before the text of the last user message', () => {
+  const image = { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,AAAA' } };
+  const messages = [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'First question' },
+    { role: 'assistant', content: 'Answer' },
+    { role: 'user', content: 'What is in this picture?' },
+  ];
+
+  const updated = attachImagesToMessages(messages, [image]);
+  const last = updated[3];
+  if (!Array.isArray(last.content) || last.content[0] !== image) {
+    throw new Error('Image should be the first content part');
+  }
+  if (last.content[1]?.text !== 'What is in this picture?') throw new Error('Text part missing');
+  if (typeof updated[1].content !== 'string') throw new Error('Earlier user messages should be untouched');
+  if (typeof messages[3].content !== 'string') throw new Error('Input messages should not be mutated');
+
+  const noUser = attachImagesToMessages([{ role: 'system', content: 'x' }], [image]);
+  if (noUser.length !== 2 || noUser[1].role !== 'user') throw new Error('Should add a user message');
+});
+
+test('Should redact inline image data in echoed messages', () => {
+  const url = toImageDataUrl(Buffer.alloc(300, 1), 'image/jpeg');
+  const redacted = redactImageDataUrls([
+    { role: 'user', content: [{ type: 'image_url', image_url: { url } }, { type: 'text', text: 'hi' }] },
+  ]);
+  const redactedUrl = redacted[0].content[0].image_url.url;
+  if (redactedUrl !== 'data:image/jpeg;base64,<300 bytes omitted>') {
+    throw new Error(`Unexpected redaction: ${redactedUrl}`);
+  }
+  if (redacted[0].content[1].text !== 'hi') throw new Error('Text parts should be kept');
+});
+
+console.log('\n' + '='.repeat(50));
+console.log(`✅ Tests passed: ${testsPassed}`);
+console.log(`❌ Tests failed: ${testsFailed}`);
+console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+console.log('='.repeat(50));
+
+if (testsFailed > 0) {
+  process.exit(1);
+}
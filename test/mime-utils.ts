@@ -0,0 +1,90 @@
+import { checkMediaInput, extensionFromMime, sniffMimeType } from '../nodes/Sogni/mimeUtils';
+
+console.log('🧪 Starting MIME utils tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function header(...parts: Array<string | number[]>): Buffer {
+  const buffer = Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part),
+    ),
+  );
+  return Buffer.concat([buffer, Buffer.alloc(16)]);
+}
+
+const SAMPLES: Array<[string, Buffer, string]> = [
+  ['JPEG', header([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg'],
+  ['PNG', header([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 'image/png'],
+  ['GIF', header('GIF89a'), 'image/gif'],
+  ['WebP', header('RIFF', [0, 0, 0, 0], 'WEBPVP8 '), 'image/webp'],
+  ['AVIF', header([0, 0, 0, 0x1c], 'ftypavif'), 'image/avif'],
+  ['MP4', header([0, 0, 0, 0x20], 'ftypisom'), 'video/mp4'],
+  ['MOV', header([0, 0, 0, 0x14], 'ftypqt  '), 'video/quicktime'],
+  ['M4A', header([0, 0, 0, 0x20], 'ftypM4A '), 'audio/mp4'],
+  ['WebM', header([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x84], 'webm'), 'video/webm'],
+  ['WAV', header('RIFF', [0, 0, 0, 0], 'WAVEfmt '), 'audio/wav'],
+  ['MP3 (ID3)', header('ID3', [4, 0]), 'audio/mpeg'],
+  ['MP3 (frame)', header([0xff, 0xfb, 0x90, 0x64]), 'audio/mpeg'],
+  ['OGG', header('OggS', [0, 2], 'vorbis'), 'audio/ogg'],
+];
+
+async function runTests() {
+  for (const [name, buffer, expected] of SAMPLES) {
+    await test(`Should sniff ${name}`, () => {
+      const actual = sniffMimeType(buffer);
+      if (actual !== expected) throw new Error(`Expected ${expected}, got ${actual}`);
+      if (extensionFromMime(expected) === 'bin') throw new Error(`No extension for ${expected}`);
+    });
+  }
+
+  await test('Should not guess on unknown content', () => {
+    if (sniffMimeType(Buffer.from('hello world, plain text')) !== undefined) {
+      throw new Error('Text should not be sniffed as media');
+    }
+  });
+
+  await test('Should reject inputs of the wrong media kind', () => {
+    const png = SAMPLES[1][1];
+    const wav = SAMPLES[9][1];
+    if (checkMediaInput(png, 'audio/wav', 'audio').ok) throw new Error('PNG accepted as audio');
+    if (!checkMediaInput(wav, 'application/octet-stream', 'audio').ok) {
+      throw new Error('WAV rejected as audio');
+    }
+    if (checkMediaInput(Buffer.from('%PDF-1.7 ...'), 'application/pdf', 'video').ok) {
+      throw new Error('PDF accepted as video');
+    }
+    if (!checkMediaInput(Buffer.from('unknown'), 'audio/flac', 'audio').ok) {
+      throw new Error('Declared audio type should be trusted when content is unknown');
+    }
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
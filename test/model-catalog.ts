@@ -0,0 +1,158 @@
+import {
+  CatalogCache,
+  credentialCacheKey,
+  filterModels,
+  selectModels,
+  withSharedClient,
+} from '../nodes/Sogni/modelCatalog';
+
+console.log('🧪 Starting model catalog tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+async function runTests() {
+  await test('Should share one fetch between concurrent callers', async () => {
+    const cache = new CatalogCache<string[]>({ ttlMs: 1000, staleMs: 1000 });
+    let fetches = 0;
+    const fetcher = async () => {
+      fetches++;
+      await tick();
+      return ['flux'];
+    };
+    const results = await Promise.all([cache.get('a', fetcher), cache.get('a', fetcher)]);
+    if (fetches !== 1) throw new Error(`Expected 1 fetch, got ${fetches}`);
+    if (results.some((result) => result.value[0] !== 'flux')) throw new Error('Value not shared');
+  });
+
+  await test('Should serve fresh, then stale while revalidating, then refetch', async () => {
+    let now = 0;
+    let version = 0;
+    const cache = new CatalogCache<number>({ ttlMs: 100, staleMs: 100, now: () => now });
+    const fetcher = async () => ++version;
+
+    const first = await cache.get('a', fetcher);
+    now = 50;
+    const fresh = await cache.get('a', fetcher);
+    if (first.freshness !== 'fetched' || fresh.freshness !== 'fresh' || fresh.value !== 1) {
+      throw new Error(`Unexpected: ${JSON.stringify([first, fresh])}`);
+    }
+
+    now = 150;
+    const stale = await cache.get('a', fetcher);
+    if (stale.freshness !== 'stale' || stale.value !== 1) throw new Error('Stale value not served');
+    await tick();
+    const refreshed = await cache.get('a', fetcher);
+    if (refreshed.value !== 2 || refreshed.freshness !== 'fresh') {
+      throw new Error('Background refresh did not update the entry');
+    }
+
+    now = 1000;
+    const expired = await cache.get('a', fetcher);
+    if (expired.freshness !== 'fetched' || expired.value !== 3) throw new Error('Expired entry served');
+  });
+
+  await test('Should fetch live data on a forced refresh and cache it', async () => {
+    let version = 0;
+    const cache = new CatalogCache<number>({ ttlMs: 100, staleMs: 100, now: () => 0 });
+    const fetcher = async () => ++version;
+
+    await cache.get('a', fetcher);
+    const live = await cache.get('a', fetcher, { forceRefresh: true });
+    if (live.freshness !== 'fetched' || live.value !== 2) {
+      throw new Error(`Fresh entry served instead of live data: ${JSON.stringify(live)}`);
+    }
+    const cached = await cache.get('a', fetcher);
+    if (cached.value !== 2 || cached.freshness !== 'fresh') throw new Error('Live data not cached');
+  });
+
+  await test('Should keep the stale value when a background refresh fails', async () => {
+    let now = 0;
+    let fail = false;
+    const cache = new CatalogCache<string>({ ttlMs: 10, staleMs: 100, now: () => now });
+    const fetcher = async () => {
+      if (fail) throw new Error('network down');
+      return 'v1';
+    };
+    await cache.get('a', fetcher);
+    fail = true;
+    now = 20;
+    const stale = await cache.get('a', fetcher);
+    await tick();
+    const again = await cache.get('a', fetcher);
+    if (stale.value !== 'v1' || again.value !== 'v1') throw new Error('Stale value lost after failure');
+  });
+
+  await test('Should key the cache by credential without exposing the password', () => {
+    const a = credentialCacheKey({ username: 'alice', password: 'secret' });
+    const b = credentialCacheKey({ username: 'alice', password: 'other' });
+    if (a === b) throw new Error('Different credentials must not share a key');
+    if (a.includes('secret') || a.includes('alice')) throw new Error('Key must be hashed');
+  });
+
+  await test('Should share one client between concurrent users and close it once', async () => {
+    const counts = { created: 0, closed: 0 };
+    const create = () => ({ id: ++counts.created });
+    const close = async () => {
+      counts.closed++;
+    };
+    const use = (ms: number) =>
+      withSharedClient('key', create, close, async (client) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return client.id;
+      });
+
+    const ids = await Promise.all([use(10), use(5)]);
+    if (counts.created !== 1 || counts.closed !== 1 || ids[0] !== ids[1]) {
+      throw new Error(`created=${counts.created} closed=${counts.closed} ids=${ids}`);
+    }
+    await use(1);
+    if (counts.created < 2) throw new Error('A new client should be created after the last user left');
+  });
+
+  await test('Should filter and sort cached models locally', () => {
+    const models = [
+      { id: 'sd15', name: 'Stable Diffusion', workerCount: 2 },
+      { id: 'flux1-schnell-fp8', name: 'Flux Schnell', workerCount: 9, tags: ['fast'] },
+      { id: 'flux1-dev', name: 'Flux Dev', workers: 0 },
+    ];
+    const flux = filterModels(models, 'FLUX');
+    if (flux.length !== 2) throw new Error(`Expected 2 flux models, got ${flux.length}`);
+    if (filterModels(models, 'fast')[0]?.id !== 'flux1-schnell-fp8') throw new Error('Tags not searched');
+
+    const selected = selectModels(models, { sortByWorkers: true, minWorkers: 1 });
+    if (selected.map((model) => model.id).join(',') !== 'flux1-schnell-fp8,sd15') {
+      throw new Error(`Unexpected selection: ${selected.map((model) => model.id)}`);
+    }
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
@@ -4,6 +4,9 @@
  */
 
 import { Sogni } from '../nodes/Sogni/Sogni.node';
+import { SogniTrigger } from '../nodes/SogniTrigger/SogniTrigger.node';
+import { LmChatSogni } from '../nodes/LmChatSogni/LmChatSogni.node';
+import { ToolSogni } from '../nodes/ToolSogni/ToolSogni.node';
 import { SogniApi } from '../credentials/SogniApi.credentials';
 
 console.log('🧪 Starting n8n-nodes-sogni validation tests...\n');
@@ -381,6 +384,129 @@ async function runTests() {
     if (!promptProp.required) throw new Error('llmPrompt should be required');
   })();
 
+  // Test 36: Project resource async operations
+  await test('Should have submit, status, wait and cancel operations for project resource', () => {
+    const node = new Sogni();
+    const operationProps = node.description.properties.filter(p => p.name === 'operation');
+    const projectOperationProp = operationProps.find(p =>
+      p.displayOptions?.show?.resource?.includes('project')
+    );
+    if (!projectOperationProp || !projectOperationProp.options) {
+      throw new Error('Project operation property not found');
+    }
+    for (const value of ['submitImage', 'submitVideo', 'getStatus', 'wait', 'cancel']) {
+      if (!projectOperationProp.options.find((o: any) => o.value === value)) {
+        throw new Error(`${value} operation not found for project resource`);
+      }
+    }
+  })();
+
+  // Test 37: Trigger node shares the sogniApi credential
+  await test('Should export SogniTrigger node using sogniApi credentials', () => {
+    const trigger = new SogniTrigger();
+    if (trigger.description.name !== 'sogniTrigger') {
+      throw new Error(`Expected 'sogniTrigger', got '${trigger.description.name}'`);
+    }
+    if (typeof trigger.trigger !== 'function') throw new Error('Trigger method not found');
+    const sogniCred = trigger.description.credentials?.find(c => c.name === 'sogniApi');
+    if (!sogniCred) throw new Error('sogniApi credential not found on trigger');
+  })();
+
+  // Test 38: Chat model sub-node for AI Agents
+  await test('Should export LmChatSogni sub-node with a language model output', () => {
+    const chatNode = new LmChatSogni();
+    if (chatNode.description.name !== 'lmChatSogni') {
+      throw new Error(`Expected 'lmChatSogni', got '${chatNode.description.name}'`);
+    }
+    if (!(chatNode.description.outputs as string[]).includes('ai_languageModel')) {
+      throw new Error('LmChatSogni should output ai_languageModel');
+    }
+    if (typeof chatNode.supplyData !== 'function') throw new Error('supplyData method not found');
+    if (typeof chatNode.methods.loadOptions.getChatModelOptions !== 'function') {
+      throw new Error('getChatModelOptions loadOptions method not found');
+    }
+  })();
+
+  // Test 39: Tool sub-node for AI Agents
+  await test('Should export ToolSogni sub-node with cost limits and allowed operations', () => {
+    const toolNode = new ToolSogni();
+    if (toolNode.description.name !== 'toolSogni') {
+      throw new Error(`Expected 'toolSogni', got '${toolNode.description.name}'`);
+    }
+    if (!(toolNode.description.outputs as string[]).includes('ai_tool')) {
+      throw new Error('ToolSogni should output ai_tool');
+    }
+    if (typeof toolNode.supplyData !== 'function') throw new Error('supplyData method not found');
+
+    const names = toolNode.description.properties.map((p) => p.name);
+    for (const name of ['allowedOperations', 'maxCostPerCall', 'maxTotalCost']) {
+      if (!names.includes(name)) throw new Error(`Missing parameter: ${name}`);
+    }
+    const allowed = toolNode.description.properties.find((p) => p.name === 'allowedOperations');
+    const values = (allowed?.options as Array<{ value: string }>).map((o) => o.value);
+    for (const op of ['image.generate', 'image.edit', 'video.generate']) {
+      if (!values.includes(op)) throw new Error(`Missing allowed operation: ${op}`);
+    }
+  })();
+
+  // Test 40: Image operation includes estimateCost
+  await test('Should have estimateCost operation for image resource', () => {
+    const node = new Sogni();
+    const operationProps = node.description.properties.filter(p => p.name === 'operation');
+    const imageOperationProp = operationProps.find(p =>
+      p.displayOptions?.show?.resource?.includes('image')
+    );
+    const values = (imageOperationProp?.options as Array<{ value: string }>).map((o) => o.value);
+    if (!values.includes('estimateCost')) {
+      throw new Error('estimateCost operation not found for image resource');
+    }
+    const modelProp = node.description.properties.find(p => p.name === 'modelId');
+    if (!modelProp?.displayOptions?.show?.operation?.includes('estimateCost')) {
+      throw new Error('Image model picker not shown for estimateCost');
+    }
+  })();
+
+  // Test 41: Image operation includes inpaint with its own mask parameters
+  await test('Should have inpaint operation for image resource', () => {
+    const node = new Sogni();
+    const operationProps = node.description.properties.filter(p => p.name === 'operation');
+    const imageOperationProp = operationProps.find(p =>
+      p.displayOptions?.show?.resource?.includes('image')
+    );
+    const values = (imageOperationProp?.options as Array<{ value: string }>).map((o) => o.value);
+    if (!values.includes('inpaint')) {
+      throw new Error('inpaint operation not found for image resource');
+    }
+    for (const name of ['modelId', 'positivePrompt', 'inpaintSourceProperty', 'inpaintMaskSource']) {
+      const prop = node.description.properties.find(p => p.name === name);
+      if (!prop?.displayOptions?.show?.operation?.includes('inpaint')) {
+        throw new Error(`${name} not shown for inpaint`);
+      }
+    }
+  })();
+
+  // Test 42: Image operation includes upscale with binary and URL sources
+  await test('Should have upscale operation for image resource', () => {
+    const node = new Sogni();
+    const operationProps = node.description.properties.filter(p => p.name === 'operation');
+    const imageOperationProp = operationProps.find(p =>
+      p.displayOptions?.show?.resource?.includes('image')
+    );
+    const values = (imageOperationProp?.options as Array<{ value: string }>).map((o) => o.value);
+    if (!values.includes('upscale')) {
+      throw new Error('upscale operation not found for image resource');
+    }
+    const factor = node.description.properties.find(p => p.name === 'upscaleFactor');
+    const factors = (factor?.options as Array<{ value: number }>).map((o) => o.value);
+    if (factors.join(',') !== '2,4') {
+      throw new Error(`Unexpected scale factors: ${factors}`);
+    }
+    const urls = node.description.properties.find(p => p.name === 'upscaleImageUrls');
+    if (!urls?.displayOptions?.show?.upscaleSource?.includes('url')) {
+      throw new Error('Image URLs not shown for the URL source');
+    }
+  })();
+
   // Summary
   console.log('\n' + '='.repeat(50));
   console.log(`✅ Tests passed: ${testsPassed}`);
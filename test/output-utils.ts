@@ -0,0 +1,157 @@
+import { INodeExecutionData } from 'n8n-workflow';
+
+import {
+  mediaBinaryPropertyName,
+  readIncludeInputData,
+  readOutputMode,
+  splitMediaOutput,
+  withInputData,
+} from '../nodes/Sogni/outputUtils';
+
+console.log('🧪 Starting output utils tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+const binaryFile = (fileName: string) => ({ data: '', mimeType: 'image/png', fileName });
+
+async function runTests() {
+  await test('Should default to one item per project', () => {
+    if (readOutputMode(undefined) !== 'perProject') throw new Error('Expected perProject');
+    if (readOutputMode('perMedia') !== 'perMedia') throw new Error('Expected perMedia');
+    if (mediaBinaryPropertyName('image', 0) !== 'image') throw new Error('First name wrong');
+    if (mediaBinaryPropertyName('video', 2) !== 'video_2') throw new Error('Nth name wrong');
+  });
+
+  await test('Should split a project into one item per image', () => {
+    const project: INodeExecutionData = {
+      json: {
+        projectId: 'p1',
+        modelId: 'flux',
+        imageUrls: ['https://a/0.png', 'https://a/1.png'],
+        jobs: [{ id: 'j0' }, { id: 'j1' }],
+        meta: { network: 'fast' },
+        downloads: [
+          { index: 0, bytes: 10 },
+          { index: 1, bytes: 20 },
+        ],
+      },
+      binary: { image: binaryFile('p1_0.png'), image_1: binaryFile('p1_1.png') },
+    };
+    const items = splitMediaOutput(project, {
+      urlsKey: 'imageUrls',
+      binaryPrefix: 'image',
+      jobs: [
+        { id: 'j0', seed: 11, status: 'completed' },
+        { id: 'j1', seed: 12, status: 'completed' },
+      ],
+      itemIndex: 3,
+    });
+
+    if (items.length !== 2) throw new Error(`Expected 2 items, got ${items.length}`);
+    const second = items[1];
+    if (second.json.url !== 'https://a/1.png' || second.json.index !== 1) {
+      throw new Error(`Unexpected json: ${JSON.stringify(second.json)}`);
+    }
+    if (second.json.seed !== 12 || second.json.jobId !== 'j1' || second.json.projectId !== 'p1') {
+      throw new Error(`Per-file fields missing: ${JSON.stringify(second.json)}`);
+    }
+    if ((second.json.download as { bytes: number }).bytes !== 20) {
+      throw new Error('Download stats not matched to the file');
+    }
+    if (second.json.imageUrls !== undefined || second.json.jobs !== undefined) {
+      throw new Error('Project-level lists should be dropped');
+    }
+    if (second.binary?.image?.fileName !== 'p1_1.png' || second.binary?.image_1) {
+      throw new Error('Binary should be moved to the "image" property');
+    }
+    if ((second.pairedItem as { item: number }).item !== 3) throw new Error('pairedItem missing');
+  });
+
+  await test('Should match jobs by result URL and fall back to the requested seed', () => {
+    const items = splitMediaOutput(
+      { json: { videoUrls: ['https://v/a.mp4'] }, binary: {} },
+      {
+        urlsKey: 'videoUrls',
+        binaryPrefix: 'video',
+        jobs: [
+          { id: 'other', resultUrl: 'https://v/x.mp4' },
+          { id: 'match', resultUrl: 'https://v/a.mp4' },
+        ],
+        seed: 42,
+        itemIndex: 0,
+      },
+    );
+    if (items[0].json.jobId !== 'match') throw new Error(`Wrong job: ${items[0].json.jobId}`);
+    if (items[0].json.seed !== 42) throw new Error('Requested seed not used for a single file');
+  });
+
+  await test('Should keep an item without URLs as is', () => {
+    const item: INodeExecutionData = { json: { imageUrls: [] } };
+    const items = splitMediaOutput(item, {
+      urlsKey: 'imageUrls',
+      binaryPrefix: 'image',
+      itemIndex: 0,
+    });
+    if (items.length !== 1 || items[0] !== item) throw new Error('Item should pass through');
+  });
+
+  await test('Should only pair items when input data is not included', () => {
+    const [item] = withInputData(
+      [{ json: { projectId: 'p1' } }],
+      { json: { chatId: 7 } },
+      readIncludeInputData(undefined),
+      2,
+    );
+    if (item.json.chatId !== undefined) throw new Error('Input JSON should not be copied');
+    if ((item.pairedItem as { item: number }).item !== 2) throw new Error('pairedItem missing');
+  });
+
+  await test('Should merge input JSON and binaries with output fields winning', () => {
+    const input: INodeExecutionData = {
+      json: { chatId: 7, projectId: 'upstream' },
+      binary: { image: binaryFile('input.png'), attachment: binaryFile('doc.png') },
+    };
+    const outputs: INodeExecutionData[] = [
+      { json: { projectId: 'p1' }, binary: { image: binaryFile('p1_0.png') } },
+    ];
+
+    const [jsonOnly] = withInputData(outputs, input, 'json', 0);
+    if (jsonOnly.json.chatId !== 7 || jsonOnly.json.projectId !== 'p1') {
+      throw new Error(`Unexpected json: ${JSON.stringify(jsonOnly.json)}`);
+    }
+    if (jsonOnly.binary?.attachment) throw new Error('Binary should not be copied in JSON mode');
+
+    const [both] = withInputData(outputs, input, 'jsonAndBinary', 0);
+    if (both.binary?.attachment?.fileName !== 'doc.png') throw new Error('Input binary missing');
+    if (both.binary?.image?.fileName !== 'p1_0.png') throw new Error('Output binary should win');
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,253 @@
+import { registerProject } from '../nodes/Sogni/projectRegistry';
+import {
+  extractProjectId,
+  fetchProjectStatus,
+  isTerminalProjectState,
+  isTimeoutError,
+  normalizeCancellation,
+  normalizeJobEvent,
+  normalizeProjectState,
+  normalizeProjectStatus,
+} from '../nodes/Sogni/projectUtils';
+
+console.log('🧪 Starting project utility tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+async function runTests() {
+  await test('Should normalize SDK and REST job state names', () => {
+    const cases: Array<[string, string]> = [
+      ['jobCompleted', 'completed'],
+      ['initiating', 'processing'],
+      ['pending', 'pending'],
+      ['authorized', 'pending'],
+      ['active', 'queued'],
+      ['assigned', 'processing'],
+      ['progress', 'processing'],
+      ['jobProgress', 'processing'],
+      ['jobError', 'failed'],
+      ['Cancelled', 'canceled'],
+      ['job_failed', 'failed'],
+      ['something-else', 'unknown'],
+    ];
+
+    for (const [raw, expected] of cases) {
+      const actual = normalizeProjectState(raw);
+      if (actual !== expected) {
+        throw new Error(`Expected "${raw}" to normalize to ${expected}, got ${actual}`);
+      }
+    }
+  });
+
+  await test('Should treat completed, failed and canceled as terminal states', () => {
+    if (!isTerminalProjectState('completed') || !isTerminalProjectState('canceled')) {
+      throw new Error('Expected completed/canceled to be terminal');
+    }
+    if (isTerminalProjectState('processing') || isTerminalProjectState('queued')) {
+      throw new Error('Expected processing/queued to be non-terminal');
+    }
+  });
+
+  await test('Should read the project ID from wrapper results and raw projects', () => {
+    if (extractProjectId({ projectId: 'P1' }) !== 'P1') throw new Error('Expected projectId field');
+    if (extractProjectId({ project: { id: 'P2' } }) !== 'P2') throw new Error('Expected project.id');
+    if (extractProjectId({}) !== undefined) throw new Error('Expected undefined for missing ID');
+  });
+
+  await test('Should derive project state and progress from job states', () => {
+    const summary = normalizeProjectStatus(
+      {
+        project: {
+          id: 'P3',
+          jobs: [
+            { id: 'J1', status: 'jobCompleted', resultUrl: 'https://example.com/1.png' },
+            { id: 'J2', status: 'processing', progress: 0.5 },
+          ],
+        },
+      },
+      'fallback',
+    );
+
+    if (summary.projectId !== 'P3') throw new Error(`Expected P3, got ${summary.projectId}`);
+    if (summary.status !== 'processing') throw new Error(`Expected processing, got ${summary.status}`);
+    if (summary.progress !== 75) throw new Error(`Expected 75% progress, got ${summary.progress}`);
+    if (summary.resultUrls.length !== 1) throw new Error('Expected one result URL');
+  });
+
+  await test('Should report completed projects with all result URLs', () => {
+    const summary = normalizeProjectStatus(
+      {
+        projectId: 'P4',
+        completed: true,
+        imageUrls: ['https://example.com/a.png', 'https://example.com/b.png'],
+      },
+      'P4',
+    );
+
+    if (!summary.completed || summary.progress !== 100) {
+      throw new Error('Expected completed project at 100%');
+    }
+    if (summary.resultUrls.length !== 2) throw new Error('Expected both result URLs');
+  });
+
+  await test('Should merge running and finished jobs from the live status lookup', () => {
+    const summary = normalizeProjectStatus(
+      {
+        id: 'P7',
+        status: 'processing',
+        finished: false,
+        workerJobs: [{ id: 'J1', status: 'jobProgress', progress: 0.5 }],
+        completedWorkerJobs: [
+          { id: 'J2', status: 'jobCompleted', resultUrl: 'https://example.com/2.png' },
+        ],
+      },
+      'P7',
+    );
+
+    if (summary.status !== 'processing') throw new Error(`Expected processing, got ${summary.status}`);
+    if (summary.jobs.length !== 2) throw new Error(`Expected 2 jobs, got ${summary.jobs.length}`);
+    if (summary.resultUrls.length !== 1) throw new Error('Expected the finished job result URL');
+  });
+
+  await test('Should poll running projects through projects.getStatus', async () => {
+    const calls: string[] = [];
+    const client = {
+      client: {
+        projects: {
+          get: async () => {
+            throw Object.assign(new Error('Not found'), { status: 404 });
+          },
+          getStatus: async (projectId: string) => {
+            calls.push(projectId);
+            return {
+              id: projectId,
+              status: 'queued',
+              finished: false,
+              workerJobs: [],
+              completedWorkerJobs: [],
+            };
+          },
+        },
+      },
+    };
+
+    const status = await fetchProjectStatus(client, 'P8', 'image');
+    if (status.status !== 'queued') throw new Error(`Expected queued, got ${status.status}`);
+    if (calls.join(',') !== 'P8') throw new Error('Expected one getStatus call');
+  });
+
+  await test('Should report a recently submitted project that 404s as pending', async () => {
+    const client = {
+      client: {
+        projects: {
+          getStatus: async () => {
+            throw Object.assign(new Error('Project not found'), { status: 404 });
+          },
+        },
+      },
+    };
+
+    registerProject('P9', { projectType: 'image' });
+    const status = await fetchProjectStatus(client, 'P9', 'image');
+    if (status.status !== 'pending' || status.completed) {
+      throw new Error(`Expected pending, got ${status.status}`);
+    }
+
+    let message = '';
+    try {
+      await fetchProjectStatus(client, 'UNKNOWN', 'image');
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    if (!/was not found/.test(message)) {
+      throw new Error(`Expected unknown projects to fail as not found, got "${message}"`);
+    }
+  });
+
+  await test('Should report cancelled jobs from cancel responses', () => {
+    const cancellation = normalizeCancellation(
+      {
+        jobs: [
+          { id: 'J1', status: 'canceled' },
+          { id: 'J2', status: 'completed' },
+        ],
+      },
+      'P5',
+    );
+
+    if (!cancellation.canceled) throw new Error('Expected cancellation to succeed');
+    if (cancellation.canceledJobs.join(',') !== 'J1') {
+      throw new Error(`Expected only J1 to be cancelled, got ${cancellation.canceledJobs.join(',')}`);
+    }
+  });
+
+  await test('Should detect timeout errors from wrapper and n8n messages', () => {
+    if (!isTimeoutError(new Error('Project timed out after 60000ms'))) {
+      throw new Error('Expected "timed out" to be a timeout');
+    }
+    if (!isTimeoutError('Timeout waiting for jobs')) throw new Error('Expected "Timeout" to match');
+    if (isTimeoutError(new Error('Insufficient funds'))) {
+      throw new Error('Did not expect insufficient funds to be a timeout');
+    }
+  });
+
+  await test('Should normalize socket job results and SDK job events for the trigger', () => {
+    const failed = normalizeJobEvent('jobResult', {
+      projectId: 'P6',
+      jobId: 'J1',
+      success: false,
+      error: { message: 'Worker crashed' },
+    });
+    if (!failed || failed.event !== 'jobResult' || failed.success !== false || failed.state !== 'failed') {
+      throw new Error('Expected a failed job result');
+    }
+    if (failed.error !== 'Worker crashed') throw new Error('Expected the worker error message');
+
+    const completed = normalizeJobEvent('job', {
+      type: 'completed',
+      projectId: 'P6',
+      jobId: 'J2',
+      resultUrl: 'https://example.com/2.png',
+    });
+    if (!completed || completed.event !== 'jobResult' || completed.success !== true) {
+      throw new Error('Expected SDK "completed" job events to be treated as results');
+    }
+
+    const started = normalizeJobEvent('jobState', { projectId: 'P6', jobId: 'J3', type: 'jobStarted' });
+    if (!started || started.event !== 'jobState' || started.state !== 'processing') {
+      throw new Error('Expected jobStarted to be a processing state event');
+    }
+
+    if (normalizeJobEvent('jobState', { type: 'jobStarted' }) !== undefined) {
+      throw new Error('Expected events without a project ID to be ignored');
+    }
+  });
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
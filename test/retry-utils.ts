@@ -0,0 +1,176 @@
+import {
+  DEFAULT_RETRY_OPTIONS,
+  abortableSleep,
+  classifyError,
+  computeBackoffDelay,
+  readRetryOptions,
+  withRetry,
+} from '../nodes/Sogni/retryUtils';
+
+console.log('🧪 Starting retry utility tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+function errorWith(message: string, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(message), extra);
+}
+
+const noSleep = async () => {};
+
+async function runTests() {
+  await test('Should classify SDK, socket and HTTP errors', () => {
+    const cases: Array<[unknown, string, boolean]> = [
+      [errorWith('Invalid credentials'), 'AUTH', false],
+      [errorWith('Request failed', { status: 401 }), 'AUTH', false],
+      [errorWith('Insufficient funds for this project'), 'INSUFFICIENT_BALANCE', false],
+      [errorWith('Invalid steps value'), 'VALIDATION', false],
+      [errorWith('No available workers for model flux1'), 'NO_WORKERS', true],
+      [errorWith('Worker failed to render job'), 'WORKER_FAILURE', true],
+      [errorWith('Project timed out after 60000ms'), 'TIMEOUT', true],
+      [errorWith('read ECONNRESET', { code: 'ECONNRESET' }), 'SOCKET_DROP', true],
+      [errorWith('WebSocket was closed before the connection was established'), 'SOCKET_DROP', true],
+      [errorWith('Execution was stopped while the project was rendering'), 'CANCELED', false],
+      [errorWith('Something odd'), 'UNKNOWN', false],
+    ];
+    for (const [error, code, retryable] of cases) {
+      const actual = classifyError(error);
+      if (actual.code !== code || actual.retryable !== retryable) {
+        throw new Error(`"${(error as Error).message}": expected ${code}, got ${actual.code}`);
+      }
+    }
+  });
+
+  await test("Should not retry the node's own cancellations", () => {
+    const error = errorWith('Project timed out after 60000ms. Cancelled 1/1 project(s)', {
+      context: { errorCode: 'TIMEOUT', retryable: false },
+    });
+    const actual = classifyError(error);
+    if (actual.code !== 'TIMEOUT' || actual.retryable) {
+      throw new Error(`Expected a non-retryable TIMEOUT, got ${actual.code}/${actual.retryable}`);
+    }
+  });
+
+  await test('Should not retry unless Max Retries is set', () => {
+    if (readRetryOptions({}).maxRetries !== 0) throw new Error('Retries must be opt-in');
+  });
+
+  await test('Should keep an error code set on the error context', () => {
+    const error = errorWith('Budget exceeded', { context: { errorCode: 'BUDGET_EXCEEDED' } });
+    if (classifyError(error).code !== 'BUDGET_EXCEEDED') throw new Error('Preset code ignored');
+  });
+
+  await test('Should back off exponentially with bounded jitter', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, initialDelayMs: 1000, maxDelayMs: 5000, jitter: 0.5 };
+    const delays = [1, 2, 3, 4].map((retry) => computeBackoffDelay(retry, options, () => 0.5));
+    if (delays.join(',') !== '1000,2000,4000,5000') throw new Error(`Unexpected delays: ${delays}`);
+    if (computeBackoffDelay(1, options, () => 0) !== 500) throw new Error('Lower jitter bound wrong');
+    if (computeBackoffDelay(3, options, () => 1) !== 5000) throw new Error('Delay must not exceed max');
+  });
+
+  await test('Should read retry options with defaults and limits', () => {
+    const defaults = readRetryOptions({});
+    if (defaults.maxRetries !== DEFAULT_RETRY_OPTIONS.maxRetries) throw new Error('Default not applied');
+    const custom = readRetryOptions({ maxRetries: 50, retryInitialDelayMs: 100, retryMaxDelayMs: 10 });
+    if (custom.maxRetries !== 10 || custom.maxDelayMs !== 100) {
+      throw new Error(`Unexpected options: ${JSON.stringify(custom)}`);
+    }
+  });
+
+  await test('Should retry transient errors and run beforeRetry', async () => {
+    let calls = 0;
+    const seen: string[] = [];
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls === 1) throw errorWith('socket hang up');
+        if (calls === 2) throw errorWith('No workers available');
+        return 'ok';
+      },
+      {
+        ...DEFAULT_RETRY_OPTIONS,
+        maxRetries: 2,
+        sleep: noSleep,
+        beforeRetry: (failure) => {
+          seen.push(failure.errorCode);
+        },
+      },
+    );
+    if (result !== 'ok' || calls !== 3) throw new Error(`Expected success on attempt 3, got ${calls}`);
+    if (seen.join(',') !== 'SOCKET_DROP,NO_WORKERS') throw new Error(`Unexpected retries: ${seen}`);
+  });
+
+  await test('Should not retry permanent errors and attach the error code', async () => {
+    let calls = 0;
+    try {
+      await withRetry(
+        async () => {
+          calls++;
+          throw errorWith('Insufficient balance');
+        },
+        { ...DEFAULT_RETRY_OPTIONS, sleep: noSleep },
+      );
+      throw new Error('Expected an error');
+    } catch (error: any) {
+      if (calls !== 1) throw new Error(`Permanent error retried ${calls - 1} time(s)`);
+      if (error.context?.errorCode !== 'INSUFFICIENT_BALANCE') throw new Error('errorCode not attached');
+    }
+  });
+
+  await test('Should stop after max retries and record the attempts', async () => {
+    let calls = 0;
+    try {
+      await withRetry(
+        async () => {
+          calls++;
+          throw errorWith('Worker crashed');
+        },
+        { ...DEFAULT_RETRY_OPTIONS, maxRetries: 2, sleep: noSleep },
+      );
+      throw new Error('Expected an error');
+    } catch (error: any) {
+      if (calls !== 3) throw new Error(`Expected 3 attempts, got ${calls}`);
+      if (error.context?.retries?.length !== 2) throw new Error('Retry attempts not recorded');
+    }
+  });
+
+  await test('Should end an abortable sleep as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(), 10);
+    const error = await abortableSleep(60_000, controller.signal).then(
+      () => undefined,
+      (err) => err,
+    );
+    if (!error || Date.now() - startedAt > 5000) throw new Error('Sleep was not interrupted');
+    await abortableSleep(1);
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
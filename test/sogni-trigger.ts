@@ -0,0 +1,152 @@
+import { EventEmitter } from 'events';
+import { registerProject } from '../nodes/Sogni/projectRegistry';
+import { ProjectJobEvent } from '../nodes/Sogni/projectUtils';
+import {
+  createJobEventFilter,
+  createRegisteredProjectPoller,
+  listenForJobEvents,
+} from '../nodes/SogniTrigger/jobEvents';
+
+console.log('🧪 Starting Sogni trigger tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+const defaultFilter = {
+  events: ['jobResult', 'jobState'],
+  onlyOwnProjects: true,
+  resourceType: 'any',
+  outcome: 'any',
+  modelIds: [],
+};
+
+async function runTests() {
+  await test('Should emit socket job events for projects started in this process', () => {
+    registerProject('TP1', { projectType: 'image', modelId: 'flux1-schnell-fp8' });
+    const emitter = new EventEmitter();
+    const shouldEmit = createJobEventFilter(defaultFilter);
+    const emitted: ProjectJobEvent[] = [];
+    const stop = listenForJobEvents([emitter, undefined], (event) => {
+      if (shouldEmit(event)) emitted.push(event);
+    });
+
+    emitter.emit('jobState', { projectId: 'TP1', jobId: 'J1', type: 'jobStarted' });
+    emitter.emit('jobResult', { projectId: 'TP1', jobId: 'J1', resultUrl: 'https://example.com/1.png' });
+    // Same result again (e.g. re-emitted by the SDK) and an unknown project
+    emitter.emit('job', { projectId: 'TP1', jobId: 'J1', type: 'completed' });
+    emitter.emit('jobResult', { projectId: 'OTHER', jobId: 'J9' });
+
+    const summary = emitted.map((event) => `${event.event}:${event.state}`).join(',');
+    if (summary !== 'jobState:processing,jobResult:completed') {
+      throw new Error(`Unexpected events: ${summary}`);
+    }
+
+    stop();
+    emitter.emit('jobResult', { projectId: 'TP1', jobId: 'J2' });
+    if (emitted.length !== 2) throw new Error('Listener still attached after stop');
+    if (emitter.listenerCount('jobResult') !== 0) throw new Error('Listeners not removed');
+  });
+
+  await test('Should apply resource type, model and outcome filters', () => {
+    registerProject('TP2', { projectType: 'video', modelId: 'wan-t2v' });
+    const shouldEmit = createJobEventFilter({
+      ...defaultFilter,
+      resourceType: 'video',
+      outcome: 'failure',
+      modelIds: ['wan-t2v'],
+    });
+    const result = (projectId: string, success: boolean): ProjectJobEvent => ({
+      event: 'jobResult',
+      projectId,
+      jobId: `${projectId}-${success}`,
+      state: success ? 'completed' : 'failed',
+      success,
+    });
+
+    if (shouldEmit(result('TP1', false))) throw new Error('Image project passed the video filter');
+    if (shouldEmit(result('TP2', true))) throw new Error('Success passed the failure filter');
+    if (!shouldEmit(result('TP2', false))) throw new Error('Expected the failed video job to pass');
+  });
+
+  await test('Should poll registered projects and report job changes once', async () => {
+    // TP1 and TP2 were registered before the trigger "started"
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const since = Date.now();
+    registerProject('TP3', { projectType: 'image', modelId: 'flux1-schnell-fp8' });
+    const snapshots = [
+      { id: 'TP3', status: 'processing', workerJobs: [{ imgID: 'J1', status: 'jobStarted' }] },
+      { id: 'TP3', status: 'processing', workerJobs: [{ imgID: 'J1', status: 'jobProgress' }] },
+      {
+        id: 'TP3',
+        status: 'completed',
+        workerJobs: [],
+        completedWorkerJobs: [
+          { imgID: 'J1', status: 'jobCompleted', resultUrl: 'https://example.com/3.png' },
+        ],
+      },
+    ];
+    const lookups: string[] = [];
+    const client = {
+      client: {
+        projects: {
+          getStatus: async (projectId: string) => {
+            lookups.push(projectId);
+            return snapshots[Math.min(lookups.length, snapshots.length) - 1];
+          },
+        },
+      },
+    };
+
+    const shouldEmit = createJobEventFilter(defaultFilter);
+    const emitted: ProjectJobEvent[] = [];
+    const poller = createRegisteredProjectPoller(
+      client,
+      (event) => {
+        if (shouldEmit(event)) emitted.push(event);
+      },
+      since,
+    );
+
+    for (let round = 0; round < 4; round++) await poller.poll();
+
+    if (lookups.filter((id) => id === 'TP3').length !== 3) {
+      throw new Error(`Expected polling to stop once TP3 finished, got ${lookups.length} lookups`);
+    }
+    if (lookups.some((id) => id !== 'TP3')) throw new Error('Polled a project registered earlier');
+    const summary = emitted.map((event) => `${event.event}:${event.state}`).join(',');
+    if (summary !== 'jobState:processing,jobResult:completed') {
+      throw new Error(`Unexpected events: ${summary}`);
+    }
+    if (emitted[1].resultUrl !== 'https://example.com/3.png' || emitted[1].jobId !== 'J1') {
+      throw new Error('Expected the job ID and result URL on the result event');
+    }
+  });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`✅ Tests passed: ${testsPassed}`);
+  console.log(`❌ Tests failed: ${testsFailed}`);
+  console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((error) => {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import {
+  SpendTracker,
+  clearExecutionSpend,
+  readBalance,
+  readSpendGuardOptions,
+} from '../nodes/Sogni/spendGuard';
+
+console.log('🧪 Starting spend guard tests...\n');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`✅ PASS: ${name}`);
+    testsPassed++;
+  } catch (error) {
+    console.error(`❌ FAIL: ${name}`);
+    console.error(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+    testsFailed++;
+  }
+}
+
+test('Should ignore Execution Options without limits', () => {
+  if (readSpendGuardOptions({}) !== undefined) throw new Error('Empty options should disable the guard');
+  if (readSpendGuardOptions({ budgetTokenType: 'sogni', onBudgetExceeded: 'skip' }) !== undefined) {
+    throw new Error('Options without a limit should disable the guard');
+  }
+  const options = readSpendGuardOptions({ itemBudget: '5', budgetTokenType: 'sogni' });
+  if (options?.itemBudget !== 5 || options.tokenType !== 'sogni' || options.onExceeded !== 'error') {
+    throw new Error(`Unexpected options: ${JSON.stringify(options)}`);
+  }
+});
+
+test('Should refuse jobs over the item budget or in the wrong token type', () => {
+  const tracker = new SpendTracker('exec-item', readSpendGuardOptions({ itemBudget: 2 })!);
+  if (!tracker.evaluate('spark', 1.5).allowed) throw new Error('Job under the item budget refused');
+  if (tracker.evaluate('spark', 2.5).allowed) throw new Error('Job over the item budget allowed');
+  if (tracker.evaluate('sogni', 1).allowed) throw new Error('Job in the other token type allowed');
+});
+
+test('Should share the execution budget across trackers of one execution', () => {
+  const options = readSpendGuardOptions({ executionBudget: 10 })!;
+  const first = new SpendTracker('exec-shared', options);
+  first.reserve(6);
+
+  const second = new SpendTracker('exec-shared', options);
+  if (second.evaluate('spark', 5).allowed) throw new Error('Reserved spend was not shared');
+  if (!second.evaluate('spark', 4).allowed) throw new Error('Job within the remaining budget refused');
+
+  const other = new SpendTracker('exec-other', options);
+  if (!other.evaluate('spark', 9).allowed) throw new Error('Executions must not share budgets');
+});
+
+test('Should replace the reserved estimate with the actual cost', () => {
+  const tracker = new SpendTracker('exec-settle', readSpendGuardOptions({ executionBudget: 10 })!);
+  tracker.reserve(4);
+  tracker.settle(4, 3);
+  tracker.recordSkip();
+  const report = tracker.report({ estimatedCost: 4, itemCost: 3 });
+  if (report.executionSpent !== 3 || report.remainingBudget !== 7) {
+    throw new Error(`Unexpected report: ${JSON.stringify(report)}`);
+  }
+  if (report.jobs !== 1 || report.skipped !== 1) throw new Error('Job and skip counts not tracked');
+});
+
+test('Should release the reservation of a job that never settled', () => {
+  const options = readSpendGuardOptions({ executionBudget: 10 })!;
+  const tracker = new SpendTracker('exec-release', options);
+  tracker.reserve(8);
+  if (tracker.evaluate('spark', 5).allowed) throw new Error('Reservation not counted');
+  tracker.release(8);
+  const report = tracker.report();
+  if (report.executionSpent !== 0 || report.jobs !== 0) {
+    throw new Error(`Reservation not released: ${JSON.stringify(report)}`);
+  }
+  if (!tracker.evaluate('spark', 5).allowed) throw new Error('Released budget still refused');
+});
+
+test('Should forget the spend of a cleared execution', () => {
+  const options = readSpendGuardOptions({ executionBudget: 10 })!;
+  new SpendTracker('exec-clear', options).reserve(9);
+  new SpendTracker('exec-clear-other', options).reserve(9);
+  clearExecutionSpend('exec-clear');
+  if (new SpendTracker('exec-clear', options).spent !== 0) throw new Error('Spend not cleared');
+  if (new SpendTracker('exec-clear-other', options).spent !== 9) {
+    throw new Error('Cleared another execution');
+  }
+});
+
+test('Should enforce the balance floor and fail closed without a balance', () => {
+  const tracker = new SpendTracker('exec-floor', readSpendGuardOptions({ balanceFloor: 20 })!);
+  const balance = readBalance({ spark: '25.5', sogni: 100 }, 'spark');
+  if (balance !== 25.5) throw new Error(`Balance not read: ${balance}`);
+  if (!tracker.evaluate('spark', 5, balance).allowed) throw new Error('Job above the floor refused');
+  if (tracker.evaluate('spark', 6, balance).allowed) throw new Error('Job below the floor allowed');
+  if (tracker.evaluate('spark', 1, undefined).allowed) throw new Error('Missing balance should refuse');
+});
+
+test('Should count running jobs against the balance floor until they settle', () => {
+  const tracker = new SpendTracker('exec-floor-held', readSpendGuardOptions({ balanceFloor: 20 })!);
+  tracker.reserve(4);
+  if (tracker.evaluate('spark', 7, 30).allowed) throw new Error('Held tokens ignored');
+  if (!/4 of it held by running jobs/.test(tracker.evaluate('spark', 7, 30).reason ?? '')) {
+    throw new Error('Reason does not mention the held tokens');
+  }
+  if (!tracker.evaluate('spark', 6, 30).allowed) throw new Error('Job down to the floor refused');
+  tracker.settle(4, 3);
+  if (!tracker.evaluate('spark', 4, 27).allowed) throw new Error('Settled job still held');
+  tracker.reserve(5);
+  tracker.release(5);
+  if (!tracker.evaluate('spark', 7, 27).allowed) throw new Error('Released job still held');
+});
+
+// Summary
+console.log('\n' + '='.repeat(50));
+console.log(`✅ Tests passed: ${testsPassed}`);
+console.log(`❌ Tests failed: ${testsFailed}`);
+console.log(`📊 Total tests: ${testsPassed + testsFailed}`);
+console.log('='.repeat(50));
+
+if (testsFailed > 0) {
+  process.exit(1);
+}